@@ -0,0 +1,53 @@
+"use client";
+
+import React, { useState } from "react";
+
+export default function AdminLoginPage() {
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Login failed: ${res.status}`);
+      const next = new URLSearchParams(window.location.search).get("next");
+      window.location.href = next?.startsWith("/admin") ? next : "/admin";
+    } catch (e: any) {
+      setError(e.message);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-slate-50 px-4">
+      <form onSubmit={submit} className="w-full max-w-sm bg-white rounded-2xl shadow-lg p-8 space-y-4">
+        <h1 className="text-2xl font-bold text-gray-900">Scoreboard admin</h1>
+        <input
+          type="password"
+          autoFocus
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          className="w-full border border-gray-200 rounded-lg px-3 py-2 text-gray-900"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy || !password}
+          className="w-full bg-gray-900 text-white rounded-lg py-2 font-medium disabled:opacity-50"
+        >
+          {busy ? "Signing in…" : "Sign in"}
+        </button>
+      </form>
+    </main>
+  );
+}
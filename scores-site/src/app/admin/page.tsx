@@ -0,0 +1,16 @@
+import AdminConsole, { type AdminBoard } from "@/components/AdminConsole";
+import { getEvents, roundTitle } from "@/lib/events";
+
+export const dynamic = "force-dynamic";
+
+export default function AdminPage() {
+  const boards: AdminBoard[] = [{ label: "Default board (/scoreboard)", board: {} }];
+  for (const event of getEvents()) {
+    boards.push({ label: event.rounds?.length ? `${event.title} · Overall` : event.title, board: { eventId: event.id } });
+    for (const round of event.rounds ?? []) {
+      boards.push({ label: `${event.title} · ${roundTitle(round)}`, board: { eventId: event.id, round: round.id } });
+    }
+  }
+
+  return <AdminConsole boards={boards} />;
+}
@@ -0,0 +1,69 @@
+import { getEvents, type BoardRef } from "@/lib/events";
+import { loadRegistry, profileMatcher, type ParticipantEntry } from "@/lib/participants";
+import { getScores } from "@/lib/scores";
+
+export const dynamic = "force-dynamic";
+
+type BoardReport = { label: string; unmatched: string[]; total: number; error?: string };
+
+async function reportFor(label: string, board: BoardRef, match: ReturnType<typeof profileMatcher>): Promise<BoardReport> {
+  try {
+    const { rows } = await getScores(board);
+    return { label, total: rows.length, unmatched: rows.filter(r => !match(r.name)).map(r => r.name) };
+  } catch (e: any) {
+    return { label, total: 0, unmatched: [], error: e.message || "Failed to load data" };
+  }
+}
+
+export default async function ParticipantsAdminPage() {
+  let registry: ParticipantEntry[] = [];
+  let registryError: string | null = null;
+  try {
+    registry = await loadRegistry();
+  } catch (e: any) {
+    registryError = e.message || "Failed to load participant registry";
+  }
+
+  const match = profileMatcher(registry);
+  const reports = await Promise.all([
+    reportFor("Default board (/scoreboard)", {}, match),
+    ...getEvents().map(e => reportFor(e.title, { eventId: e.id }, match)),
+  ]);
+
+  return (
+    <main className="min-h-screen bg-slate-50">
+      <div className="max-w-3xl mx-auto px-4 py-12 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Participant profiles</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {registry.length} profiles in the registry. Names below appear on a board but match no profile name or alias.
+          </p>
+        </div>
+
+        {registryError && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 rounded-r-lg">
+            <p className="text-red-700 font-medium">Registry error</p>
+            <p className="text-red-600 text-sm">{registryError}</p>
+          </div>
+        )}
+
+        {reports.map(report => (
+          <section key={report.label} className="bg-white rounded-2xl p-6 shadow">
+            <h2 className="font-semibold text-gray-900 mb-3">{report.label}</h2>
+            {report.error ? (
+              <p className="text-sm text-red-600">{report.error}</p>
+            ) : report.unmatched.length === 0 ? (
+              <p className="text-sm text-green-700">All {report.total} names have a profile.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {report.unmatched.map(name => (
+                  <li key={name} className="py-2 font-mono text-sm text-gray-800">{name}</li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,60 @@
+import { headers } from "next/headers";
+import QRCode from "qrcode";
+import PollControl from "@/components/PollControl";
+import { nameKey } from "@/lib/participants";
+import { getPollState, getPolls, readVotes } from "@/lib/voting";
+
+export const dynamic = "force-dynamic";
+
+export default async function PollsAdminPage() {
+  const h = await headers();
+  const origin = `${h.get("x-forwarded-proto") ?? "http"}://${h.get("x-forwarded-host") ?? h.get("host")}`;
+
+  const polls = await Promise.all(getPolls().map(async poll => {
+    const [state, votes] = await Promise.all([getPollState(poll.id), readVotes(poll.id)]);
+    const url = `${origin}/vote/${encodeURIComponent(poll.id)}`;
+    const counts = new Map<string, { name: string; votes: number }>();
+    for (const v of votes) {
+      const entry = counts.get(nameKey(v.presenter)) ?? { name: v.presenter, votes: 0 };
+      entry.votes++;
+      counts.set(nameKey(v.presenter), entry);
+    }
+    return { poll, state, url, qr: await QRCode.toString(url, { type: "svg", margin: 1 }), counts: [...counts.values()] };
+  }));
+
+  return (
+    <main className="min-h-screen bg-slate-50">
+      <div className="max-w-4xl mx-auto px-4 py-12 space-y-8">
+        <div>
+          <a href="/admin" className="text-sm text-blue-600 hover:underline">← Admin console</a>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">Audience voting</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Polls come from voting.config.json. Show the QR code on screen, then pick who is presenting.
+          </p>
+        </div>
+
+        {polls.length === 0 && <p className="text-gray-600">No polls configured.</p>}
+
+        {polls.map(({ poll, state, url, qr, counts }) => (
+          <section key={poll.id} className="bg-white rounded-2xl p-6 shadow grid gap-6 md:grid-cols-[200px_1fr]">
+            <div>
+              <div className="w-48 h-48" dangerouslySetInnerHTML={{ __html: qr }} />
+              <a href={url} className="block mt-2 text-xs text-blue-600 break-all hover:underline">{url}</a>
+            </div>
+            <div className="space-y-4">
+              <h2 className="font-semibold text-gray-900">{poll.title ?? poll.id}</h2>
+              <PollControl pollId={poll.id} presenters={poll.presenters ?? []} initialCurrent={state.current} />
+              {counts.length > 0 && (
+                <ul className="text-sm text-gray-600 divide-y divide-gray-100">
+                  {counts.map(c => (
+                    <li key={c.name} className="py-1 flex justify-between"><span>{c.name}</span><span>{c.votes} votes</span></li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </section>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { ADMIN_COOKIE, safeEqual, SESSION_MAX_AGE_S, sessionToken } from "@/lib/auth";
+import { badBodyResponse, readJsonObject } from "@/lib/http";
+
+export async function POST(req: Request) {
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    return NextResponse.json({ error: "Admin is disabled: set ADMIN_PASSWORD" }, { status: 503 });
+  }
+
+  const body = await readJsonObject(req);
+  if (!body) return badBodyResponse();
+  if (typeof body.password !== "string" || !safeEqual(body.password, password)) {
+    return NextResponse.json({ error: "Wrong password" }, { status: 401 });
+  }
+
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(ADMIN_COOKIE, await sessionToken(password), {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_S,
+  });
+  return res;
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { ADMIN_COOKIE } from "@/lib/auth";
+
+export async function POST() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.delete(ADMIN_COOKIE);
+  return res;
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { AdminActionError, runAdminAction } from "@/lib/admin";
+import { readAudit } from "@/lib/audit";
+import { boardKey, boardSchedule, type BoardRef } from "@/lib/events";
+import { badBodyResponse, errorResponse, readJsonObject } from "@/lib/http";
+import { boardLifecycle } from "@/lib/lifecycle";
+import { getBoardOverrides } from "@/lib/overrides";
+import { getScores } from "@/lib/scores";
+import type { BoardLifecycle, EmbargoMode, RowIssue, Snapshot } from "@/lib/scoring";
+
+export const dynamic = "force-dynamic";
+
+function boardFrom(params: URLSearchParams | Record<string, unknown>): BoardRef {
+  const get = (k: string) => {
+    const v = params instanceof URLSearchParams ? params.get(k) : params[k];
+    return typeof v === "string" && v ? v : undefined;
+  };
+  return { eventId: get("eventId"), round: get("round") };
+}
+
+async function state(board: BoardRef) {
+  const [overrides, audit] = await Promise.all([getBoardOverrides(board), readAudit()]);
+  let rows: Snapshot["rows"] = [];
+  let diagnostics: RowIssue[] = [];
+  let error: string | null = null;
+  let lifecycle: BoardLifecycle | null = null;
+  let embargo: EmbargoMode | null = null;
+  try {
+    const schedule = boardSchedule(board);
+    embargo = schedule.embargo ?? null;
+    lifecycle = boardLifecycle(schedule, overrides.published);
+    const payload = await getScores(board);
+    rows = payload.rows;
+    diagnostics = payload.diagnostics ?? [];
+    error = payload.staleError ?? null;
+  } catch (e: any) {
+    error = e.message || "Failed to load data";
+  }
+  const key = boardKey(board);
+  return {
+    overrides: { ...overrides, frozen: overrides.frozen ? { updatedAt: overrides.frozen.updatedAt } : null },
+    lifecycle,
+    embargo,
+    rows,
+    diagnostics,
+    error,
+    audit: audit.filter(a => boardKey(a.board) === key).slice(0, 30),
+  };
+}
+
+export async function GET(req: Request) {
+  return NextResponse.json(await state(boardFrom(new URL(req.url).searchParams)));
+}
+
+export async function POST(req: Request) {
+  const body = await readJsonObject(req);
+  if (!body) return badBodyResponse();
+  const board = boardFrom(typeof body.board === "object" && body.board !== null ? body.board as Record<string, unknown> : {});
+  const actor = req.headers.get("x-forwarded-for")?.split(",")[0].trim() || "admin";
+  try {
+    await runAdminAction(board, body, actor);
+  } catch (e: any) {
+    if (e instanceof AdminActionError) return NextResponse.json({ error: e.message }, { status: 400 });
+    return errorResponse(e);
+  }
+  return NextResponse.json(await state(board));
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/http";
+import { getPoll, setCurrentPresenter } from "@/lib/voting";
+
+export const dynamic = "force-dynamic";
+
+// Body: { poll, current } — current is the presenter to rate, or null to close voting.
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  if (body.current !== null && typeof body.current !== "string") {
+    return NextResponse.json({ error: "current must be a presenter name or null" }, { status: 400 });
+  }
+  try {
+    const poll = getPoll(String(body.poll ?? ""));
+    return NextResponse.json(await setCurrentPresenter(poll.id, body.current));
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,9 @@
+import { exportResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  const { eventId } = await params;
+  const round = new URL(req.url).searchParams.get("round") ?? undefined;
+  return exportResponse({ eventId, round }, req);
+}
@@ -0,0 +1,10 @@
+import { scoresResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+// ?round=<id> for a single round; omit it for the event's overall standings.
+export async function GET(req: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  const { eventId } = await params;
+  const round = new URL(req.url).searchParams.get("round") ?? undefined;
+  return scoresResponse({ eventId, round });
+}
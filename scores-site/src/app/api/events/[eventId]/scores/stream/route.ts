@@ -0,0 +1,16 @@
+import { errorResponse, streamResponse } from "@/lib/http";
+import { resolveBoard } from "@/lib/events";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  const { eventId } = await params;
+  const round = new URL(req.url).searchParams.get("round") ?? undefined;
+  const board = { eventId, round };
+  try {
+    resolveBoard(board);
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+  return streamResponse(board, req);
+}
@@ -0,0 +1,11 @@
+import { oembedResponse, preflightResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  return oembedResponse(req);
+}
+
+export async function OPTIONS(req: Request) {
+  return preflightResponse(req);
+}
@@ -0,0 +1,7 @@
+import { exportResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  return exportResponse({}, req);
+}
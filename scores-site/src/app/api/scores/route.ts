@@ -0,0 +1,7 @@
+import { scoresResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return scoresResponse({});
+}
@@ -0,0 +1,7 @@
+import { streamResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  return streamResponse({}, req);
+}
@@ -0,0 +1,11 @@
+import { leaderboardResponse, preflightResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  return leaderboardResponse(req);
+}
+
+export async function OPTIONS(req: Request) {
+  return preflightResponse(req);
+}
@@ -0,0 +1,68 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { badBodyResponse, errorResponse, readJsonObject } from "@/lib/http";
+import {
+  castVote, criterionLabel, criterionMax, getPoll, getPollState, hasVoted, judgeForToken, readVotes, VoteError,
+  type PollConfig,
+} from "@/lib/voting";
+
+export const dynamic = "force-dynamic";
+
+const VOTER_COOKIE = "scoreboard_voter";
+
+// A judge's token identifies that judge; a token from the voting link when the poll issues
+// tokens; otherwise a random per-device id in a cookie.
+function voterFor(req: NextRequest, poll: PollConfig, token: unknown) {
+  const judge = judgeForToken(poll, token);
+  if (judge) return { voter: `judge:${judge.name}`, judge, isNew: false };
+  if (poll.tokens) return { voter: typeof token === "string" ? token : "", isNew: false };
+  const existing = req.cookies.get(VOTER_COOKIE)?.value;
+  return existing ? { voter: existing, isNew: false } : { voter: crypto.randomUUID(), isNew: true };
+}
+
+function withVoterCookie(res: NextResponse, voter: ReturnType<typeof voterFor>) {
+  if (voter.isNew) {
+    res.cookies.set(VOTER_COOKIE, voter.voter, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: 60 * 60 * 24 * 30,
+    });
+  }
+  return res;
+}
+
+// ?token=<t> for token polls and judges.
+export async function GET(req: NextRequest, { params }: { params: Promise<{ pollId: string }> }) {
+  const { pollId } = await params;
+  try {
+    const poll = getPoll(pollId);
+    const voter = voterFor(req, poll, req.nextUrl.searchParams.get("token"));
+    const [{ current }, votes] = await Promise.all([getPollState(poll.id), readVotes(poll.id)]);
+    return withVoterCookie(NextResponse.json({
+      title: poll.title ?? poll.id,
+      criteria: poll.criteria.map(c => ({ id: c.id, label: criterionLabel(c), max: criterionMax(c) })),
+      current,
+      judge: voter.judge?.name ?? null,
+      voted: !!current && hasVoted(votes, voter.voter, current),
+    }, { headers: { "Cache-Control": "no-store" } }), voter);
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
+
+// Body: { presenter, scores: { [criterionId]: number }, token? }
+export async function POST(req: NextRequest, { params }: { params: Promise<{ pollId: string }> }) {
+  const { pollId } = await params;
+  const body = await readJsonObject(req);
+  if (!body) return badBodyResponse();
+  try {
+    const poll = getPoll(pollId);
+    const voter = voterFor(req, poll, body.token);
+    await castVote(poll, voter.voter, body, voter.judge);
+    return withVoterCookie(NextResponse.json({ ok: true }, { status: 201 }), voter);
+  } catch (e: any) {
+    if (e instanceof VoteError) return NextResponse.json({ error: e.message }, { status: e.status });
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { appendJsonLine, dataPath, readJsonLines } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+
+// ---- Local webhook receiver ----
+// Point a webhook at /api/webhooks/mock to try notifications offline. ?status=503 answers
+// with that status instead, to exercise retries. Disabled in production unless WEBHOOK_MOCK=1.
+const MOCK_FILE = dataPath("webhooks-mock.jsonl");
+
+const enabled = () => process.env.NODE_ENV !== "production" || process.env.WEBHOOK_MOCK === "1";
+const notFound = () => NextResponse.json({ error: "Not found" }, { status: 404 });
+
+// Anything outside 200–599 answers 200; 204, 205 and 304 carry no body.
+function mockStatus(req: Request) {
+  const status = Math.floor(Number(new URL(req.url).searchParams.get("status")));
+  return status >= 200 && status <= 599 ? status : 200;
+}
+
+export async function POST(req: Request) {
+  if (!enabled()) return notFound();
+  const status = mockStatus(req);
+  const text = await req.text();
+  let body: unknown = text;
+  try { body = JSON.parse(text); } catch { /* keep the raw text */ }
+  await appendJsonLine(MOCK_FILE, { at: new Date().toISOString(), status, body });
+  if ([204, 205, 304].includes(status)) return new Response(null, { status });
+  return NextResponse.json({ ok: status < 400 }, { status });
+}
+
+// The most recent deliveries, newest first.
+export async function GET() {
+  if (!enabled()) return notFound();
+  const received = await readJsonLines(MOCK_FILE);
+  return NextResponse.json({ received: received.slice(-50).reverse() }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,32 @@
+import Embed from "@/components/Embed";
+import { embedOptions } from "@/lib/embed";
+import { boardBranding, boardEndpoints, boardPath } from "@/lib/events";
+import { boardFromSearchParams, type BoardSearchParams } from "@/lib/pages";
+
+export const dynamic = "force-dynamic";
+
+// Meant for an <iframe> on another site; see "Embedding" in the README.
+export default async function EmbedPage({ searchParams }: { searchParams: BoardSearchParams }) {
+  const board = await boardFromSearchParams(searchParams);
+  const options = embedOptions(await searchParams);
+  const branding = boardBranding(board);
+  const { endpoint, streamEndpoint } = boardEndpoints(board);
+
+  return (
+    <>
+      {options.transparent && <style>{"html, body { background: transparent; }"}</style>}
+      <Embed
+        title={branding.title}
+        logoSrc={branding.logoSrc}
+        // A ?theme= preset brings its own brand color; otherwise the board's look applies.
+        brandColor={options.theme ? undefined : branding.brandColor}
+        theme={options.theme ?? branding.theme}
+        locale={branding.locale}
+        endpoint={endpoint}
+        streamEndpoint={streamEndpoint}
+        href={boardPath(board)}
+        options={options}
+      />
+    </>
+  );
+}
@@ -0,0 +1,20 @@
+import { notFound } from "next/navigation";
+import Scoreboard from "@/components/Scoreboard";
+import { boardBranding, boardEndpoints, boardLinks, getEvent } from "@/lib/events";
+
+export const dynamic = "force-dynamic";
+
+export default async function EventPage({ params }: { params: Promise<{ eventId: string }> }) {
+  const { eventId } = await params;
+  const event = getEvent(eventId);
+  if (!event) notFound();
+
+  const board = { eventId: event.id };
+  return (
+    <Scoreboard
+      {...boardBranding(board)}
+      links={boardLinks(event)}
+      {...boardEndpoints(board)}
+    />
+  );
+}
@@ -0,0 +1,21 @@
+import { notFound } from "next/navigation";
+import Scoreboard from "@/components/Scoreboard";
+import { boardBranding, boardEndpoints, boardLinks, getEvent, getRound } from "@/lib/events";
+
+export const dynamic = "force-dynamic";
+
+export default async function RoundPage({ params }: { params: Promise<{ eventId: string; round: string }> }) {
+  const { eventId, round: roundId } = await params;
+  const event = getEvent(eventId);
+  const round = event && getRound(event, roundId);
+  if (!event || !round) notFound();
+
+  const board = { eventId: event.id, round: round.id };
+  return (
+    <Scoreboard
+      {...boardBranding(board)}
+      links={boardLinks(event, round.id)}
+      {...boardEndpoints(board)}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+import { getEvents } from "@/lib/events";
+
+export const dynamic = "force-dynamic";
+
+export default function EventsPage() {
+  const events = getEvents();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <div className="max-w-3xl mx-auto px-4 py-12">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">Events</h1>
+        {events.length === 0 && (
+          <p className="text-gray-500">No events configured. Add them to events.config.json.</p>
+        )}
+        <ul className="space-y-3">
+          {events.map(event => (
+            <li key={event.id}>
+              <a
+                href={`/events/${encodeURIComponent(event.id)}`}
+                className="flex items-center space-x-4 bg-white/90 rounded-2xl p-5 shadow-lg hover:shadow-xl transition-shadow"
+              >
+                {event.logoSrc && <img src={event.logoSrc} alt="" className="h-10 w-10 rounded-lg object-cover" />}
+                <span className="font-semibold text-gray-900">{event.title}</span>
+                {event.rounds && (
+                  <span className="text-sm text-gray-500">{event.rounds.length} rounds</span>
+                )}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </main>
+  );
+}
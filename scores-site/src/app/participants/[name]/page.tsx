@@ -0,0 +1,80 @@
+import TimelineChart from "@/components/TimelineChart";
+import { boardBranding, boardPath } from "@/lib/events";
+import { participantTimeline, readHistory } from "@/lib/history";
+import { getBoardLifecycle, resultsHidden } from "@/lib/lifecycle";
+import { boardFromSearchParams, routeParam, type BoardSearchParams } from "@/lib/pages";
+import { getScores } from "@/lib/scores";
+
+export const dynamic = "force-dynamic";
+
+export default async function ParticipantPage({ params, searchParams }: {
+  params: Promise<{ name: string }>;
+  searchParams: BoardSearchParams;
+}) {
+  const name = routeParam((await params).name);
+  const board = await boardFromSearchParams(searchParams);
+
+  // Loading the board records a snapshot if nothing has been stored yet.
+  await getScores(board).catch(() => {});
+  // Nothing to show while the schedule hides the results.
+  const hidden = resultsHidden(await getBoardLifecycle(board));
+  const timeline = participantTimeline(hidden ? [] : await readHistory(board), name);
+  const { brandColor } = boardBranding(board);
+  const boardHref = boardPath(board);
+  const time = (at: string) => new Date(at).toLocaleString();
+
+  return (
+    <main className="min-h-screen bg-slate-50">
+      <div className="max-w-3xl mx-auto px-4 py-12 space-y-8">
+        <div>
+          <a href={boardHref} className="text-sm text-gray-500 hover:underline">← Back to the board</a>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">{timeline.row?.profile?.name ?? timeline.row?.name ?? name}</h1>
+          {timeline.row && (
+            <p className="text-sm text-gray-500 mt-1">
+              Currently #{timeline.row.rank} with {timeline.row.score} · {timeline.points.length} recorded changes
+            </p>
+          )}
+        </div>
+
+        {timeline.points.length === 0 ? (
+          <p className="text-gray-600">No history recorded for “{name}” on this board yet.</p>
+        ) : (
+          <>
+            <section className="bg-white rounded-2xl p-6 shadow">
+              <h2 className="font-semibold text-gray-900 mb-3">Score</h2>
+              <TimelineChart points={timeline.points.map(p => ({ at: p.at, value: p.scoreNum }))} color={brandColor} />
+            </section>
+
+            <section className="bg-white rounded-2xl p-6 shadow">
+              <h2 className="font-semibold text-gray-900 mb-3">Rank</h2>
+              <TimelineChart
+                points={timeline.points.map(p => ({ at: p.at, value: p.rank }))}
+                color={brandColor}
+                invert
+                format={v => `#${v}`}
+              />
+            </section>
+
+            <section className="bg-white rounded-2xl p-6 shadow">
+              <h2 className="font-semibold text-gray-900 mb-3">Overtakes</h2>
+              {timeline.overtakes.length === 0 ? (
+                <p className="text-sm text-gray-500">No position changes against other participants yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {timeline.overtakes.map((o, i) => (
+                    <li key={i} className="py-2 flex justify-between text-sm">
+                      <span className={o.passed ? "text-green-700" : "text-red-600"}>
+                        {o.passed ? `▲ Overtook ${o.other}` : `▼ Overtaken by ${o.other}`}
+                      </span>
+                      <span className="text-gray-500 tabular-nums">{time(o.at)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
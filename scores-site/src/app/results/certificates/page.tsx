@@ -0,0 +1,56 @@
+import PrintButton from "@/components/PrintButton";
+import { boardBranding, boardEndpoints } from "@/lib/events";
+import { boardFromSearchParams, type BoardSearchParams } from "@/lib/pages";
+import { getPublicScores } from "@/lib/scores";
+
+export const dynamic = "force-dynamic";
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[n % 10] ?? "th";
+  return `${n}${suffix}`;
+};
+
+// One landscape certificate per printed page for everyone ranked within ?top=<n> (default 3).
+export default async function CertificatesPage({ searchParams }: { searchParams: BoardSearchParams }) {
+  const board = await boardFromSearchParams(searchParams);
+  const top = Math.max(1, Number((await searchParams).top) || 3);
+  const { title, logoSrc, brandColor } = boardBranding(board);
+  const { rows, updatedAt } = await getPublicScores(board);
+  const winners = rows.filter(r => r.rank <= top);
+  const date = new Date(updatedAt).toLocaleDateString([], { year: "numeric", month: "long", day: "numeric" });
+
+  return (
+    <main className="min-h-screen bg-gray-100 print:bg-white print:min-h-0">
+      <style>{"@page { size: A4 landscape; margin: 0; }"}</style>
+      <nav className="flex items-center gap-3 max-w-5xl mx-auto px-4 py-6 print:hidden">
+        <a href={`/results${boardEndpoints(board).boardQuery}`} className="text-sm text-gray-500 hover:underline mr-auto">← Back to results</a>
+        <span className="text-sm text-gray-500">{winners.length} certificates</span>
+        <PrintButton brandColor={brandColor} />
+      </nav>
+
+      {winners.map(w => (
+        <section
+          key={w.name}
+          className="mx-auto mb-8 bg-white shadow-lg print:shadow-none print:m-0 break-after-page w-[297mm] h-[210mm] p-[12mm]"
+        >
+          <div
+            className="h-full border-[6px] rounded-xl flex flex-col items-center justify-center text-center px-16"
+            style={{ borderColor: brandColor }}
+          >
+            {logoSrc && <img src={logoSrc} alt="Logo" className="h-24 w-24 object-contain mb-6" />}
+            <p className="uppercase tracking-[0.3em] text-gray-500 text-sm">Certificate of Achievement</p>
+            <p className="mt-8 text-lg text-gray-600">This certificate is awarded to</p>
+            <h1 className="mt-3 text-6xl font-bold text-gray-900">{w.profile?.name ?? w.name}</h1>
+            <p className="mt-6 text-xl text-gray-700">
+              for finishing <span className="font-bold" style={{ color: brandColor }}>{ordinal(w.rank)} place</span> in
+            </p>
+            <p className="mt-2 text-2xl font-semibold text-gray-900">{title}</p>
+            <p className="mt-4 text-gray-500">with a score of {w.score}</p>
+            <p className="mt-12 text-sm text-gray-400">{date}</p>
+          </div>
+        </section>
+      ))}
+      {winners.length === 0 && <p className="text-center text-gray-500 py-20">No ranked participants yet.</p>}
+    </main>
+  );
+}
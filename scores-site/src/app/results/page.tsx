@@ -0,0 +1,77 @@
+import PrintButton from "@/components/PrintButton";
+import { boardBranding, boardEndpoints, boardPath } from "@/lib/events";
+import { exportUrl, standingsRecords } from "@/lib/export";
+import { resultsHidden } from "@/lib/lifecycle";
+import { boardFromSearchParams, type BoardSearchParams } from "@/lib/pages";
+import { getPublicScores } from "@/lib/scores";
+
+export const dynamic = "force-dynamic";
+
+// Print-optimized standings, final once the board closes; the toolbar is hidden when printing.
+export default async function ResultsPage({ searchParams }: { searchParams: BoardSearchParams }) {
+  const board = await boardFromSearchParams(searchParams);
+  const { title, logoSrc, brandColor } = boardBranding(board);
+  const { rows, updatedAt, lifecycle } = await getPublicScores(board);
+  const extraLabels = [...new Set(rows.flatMap(r => r.extra.map(x => x.label)))];
+  const records = standingsRecords(rows);
+  const { boardQuery } = boardEndpoints(board);
+  const heading = lifecycle?.phase === "closed" ? "Final standings" : lifecycle?.phase === "upcoming" ? "Not started yet" : "Standings so far";
+
+  return (
+    <main className="min-h-screen bg-white text-gray-900 print:min-h-0">
+      <style>{"@page { size: A4; margin: 15mm; }"}</style>
+      <div className="max-w-4xl mx-auto px-4 py-10 print:p-0 print:max-w-none">
+        <nav className="flex flex-wrap items-center gap-3 mb-8 print:hidden">
+          <a href={boardPath(board)} className="text-sm text-gray-500 hover:underline mr-auto">← Back to the board</a>
+          <a href={exportUrl(board, "csv")} className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200">Download CSV</a>
+          <a href={exportUrl(board, "json")} className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200">Download JSON</a>
+          <a href={`/results/certificates${boardQuery}`} className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200">Certificates</a>
+          <PrintButton brandColor={brandColor} />
+        </nav>
+
+        <header className="flex items-center gap-4 pb-4 mb-6 border-b-4" style={{ borderColor: brandColor }}>
+          {logoSrc && <img src={logoSrc} alt="Logo" className="h-14 w-14 object-contain" />}
+          <div>
+            <h1 className="text-3xl font-bold">{title}</h1>
+            <p className="text-sm text-gray-500">{heading} · {new Date(updatedAt).toLocaleString()}</p>
+            {lifecycle && resultsHidden(lifecycle) && (
+              <p className="text-sm text-amber-700 mt-1">Results are held back until the organizers publish them.</p>
+            )}
+          </div>
+        </header>
+
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left border-b-2 border-gray-300">
+              <th className="py-2 pr-3">Rank</th>
+              <th className="py-2 pr-3">Name</th>
+              <th className="py-2 pr-3">Team</th>
+              <th className="py-2 pr-3">Category</th>
+              {extraLabels.map(l => <th key={l} className="py-2 pr-3 text-right">{l}</th>)}
+              <th className="py-2 pr-3 text-right">Sum</th>
+              <th className="py-2 pr-3 text-right">Count</th>
+              <th className="py-2 pr-3 text-right">Avg</th>
+              <th className="py-2 text-right">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map(r => (
+              <tr key={`${r.rank}-${r.name}`} className="border-b border-gray-200 break-inside-avoid">
+                <td className="py-2 pr-3 font-bold">{r.rank}</td>
+                <td className="py-2 pr-3 font-medium">{r.name}</td>
+                <td className="py-2 pr-3">{r.team}</td>
+                <td className="py-2 pr-3">{r.category}</td>
+                {extraLabels.map(l => <td key={l} className="py-2 pr-3 text-right tabular-nums">{r[l] ?? ""}</td>)}
+                <td className="py-2 pr-3 text-right tabular-nums">{r.sum}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">{r.count}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">{r.avg}</td>
+                <td className="py-2 text-right font-bold tabular-nums">{r.score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && <p className="text-gray-500 mt-6">The data source returned no rows.</p>}
+      </div>
+    </main>
+  );
+}
@@ -1,16 +1,12 @@
 import Scoreboard from "@/components/Scoreboard";
+import { DEFAULT_BRANDING } from "@/lib/events";
 
 export default function Page() {
   return (
     <Scoreboard
-      title="Live Scores"
-      logoSrc="/Logo.png"                     // put your logo in /public
-      brandColor="#00000085"                    // any color (e.g., emerald)
-      csvUrl="https://docs.google.com/spreadsheets/d/e/2PACX-1vTotvCpeAiaoYBIhx4WoO86wUQJ_ITeeTDuUPBEVs2V8PNlCLP7C1qvloOY3v15owLXFdznb1AioC95/pub?gid=680379986&single=true&output=csv"
-      // Or, if private:
-      // apiKey={process.env.NEXT_PUBLIC_GSHEETS_API_KEY!}
-      // sheetId="1AbC..."
-      // range="Sheet1!A1:B"
+      {...DEFAULT_BRANDING}                     // title, logo and color: see src/lib/events.ts
+      // Data source is configured server-side (see README): SCORES_CSV_URL,
+      // or GSHEETS_API_KEY + GSHEETS_SHEET_ID + GSHEETS_RANGE for a private sheet.
     />
   );
 }
@@ -0,0 +1,16 @@
+import { notFound } from "next/navigation";
+import VoteForm from "@/components/VoteForm";
+import { getPolls } from "@/lib/voting";
+
+export const dynamic = "force-dynamic";
+
+// The page attendees reach from the QR code; ?token=<t> for polls that issue tokens.
+export default async function VotePage({ params, searchParams }: {
+  params: Promise<{ pollId: string }>;
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { pollId } = await params;
+  const { token } = await searchParams;
+  if (!getPolls().some(p => p.id === pollId)) notFound();
+  return <VoteForm pollId={pollId} token={token} />;
+}
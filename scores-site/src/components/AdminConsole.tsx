@@ -0,0 +1,266 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { AuditEntry } from "@/lib/audit";
+import type { BoardRef } from "@/lib/events";
+import type { ScoreOverride } from "@/lib/overrides";
+import type { BoardLifecycle, EmbargoMode, RankedParticipant, RowIssue } from "@/lib/scoring";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+
+export type AdminBoard = { label: string; board: BoardRef };
+
+type AdminState = {
+  overrides: { scores: Record<string, ScoreOverride>; hidden: string[]; frozen: { updatedAt: string } | null; published: boolean };
+  lifecycle: BoardLifecycle | null;
+  embargo: EmbargoMode | null;       // configured in the board's schedule
+  rows: RankedParticipant[];
+  diagnostics: RowIssue[];
+  error: string | null;
+  audit: AuditEntry[];
+};
+
+const EMBARGO_LABELS: Record<EmbargoMode, string> = { names: "only participant names", top3: "everyone but the top 3" };
+
+const query = (board: BoardRef) =>
+  new URLSearchParams(Object.entries(board).filter(([, v]) => v) as [string, string][]).toString();
+
+// ---- Manual Score Form ----
+function ScoreForm({ onSubmit }: { onSubmit: (action: "set-score" | "adjust-score", name: string, value: number) => void }) {
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [mode, setMode] = useState<"set-score" | "adjust-score">("adjust-score");
+
+  return (
+    <form
+      className="flex flex-wrap gap-2 items-center"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!name.trim() || value === "") return;
+        onSubmit(mode, name.trim(), Number(value));
+        setValue("");
+      }}
+    >
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Participant name" className="border border-gray-200 rounded-lg px-3 py-2 flex-1 min-w-40" />
+      <select value={mode} onChange={(e) => setMode(e.target.value as typeof mode)} className="border border-gray-200 rounded-lg px-3 py-2">
+        <option value="adjust-score">Adjust by</option>
+        <option value="set-score">Set score to</option>
+      </select>
+      <input value={value} onChange={(e) => setValue(e.target.value)} type="number" step="any" placeholder="0" className="border border-gray-200 rounded-lg px-3 py-2 w-28" />
+      <button type="submit" className="bg-gray-900 text-white rounded-lg px-4 py-2 font-medium">Apply</button>
+    </form>
+  );
+}
+
+// ---- Admin Console ----
+export default function AdminConsole({ boards }: { boards: AdminBoard[] }) {
+  const [selected, setSelected] = useState(0);
+  const [state, setState] = useState<AdminState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const board = boards[selected].board;
+
+  const load = async () => {
+    try {
+      const res = await fetch(`/api/admin/overrides?${query(board)}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Load failed: ${res.status}`);
+      setState(json);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const act = async (body: Record<string, unknown>) => {
+    if (body.action === "hide" && !window.confirm(`Hide ${body.name} from the board?`)) return;
+    try {
+      const res = await fetch("/api/admin/overrides", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, board }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Action failed: ${res.status}`);
+      setState(json);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  useEffect(() => {
+    setState(null);
+    load();
+  }, [selected]);
+
+  const overrides = state?.overrides;
+  const frozen = overrides?.frozen;
+  const lifecycle = state?.lifecycle;
+  const time = (at?: string) => (at ? new Date(at).toLocaleString() : "not set");
+
+  return (
+    <main className="min-h-screen bg-slate-50">
+      <div className="max-w-5xl mx-auto px-4 py-10 space-y-6">
+        <header className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Admin console</h1>
+            <div className="flex gap-4">
+              <a href="/admin/participants" className="text-sm text-blue-600 hover:underline">Unmatched participant names →</a>
+              <a href="/admin/polls" className="text-sm text-blue-600 hover:underline">Audience voting →</a>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={selected} onChange={(e) => setSelected(Number(e.target.value))} className="border border-gray-200 rounded-lg px-3 py-2 bg-white">
+              {boards.map((b, i) => <option key={i} value={i}>{b.label}</option>)}
+            </select>
+            <button
+              onClick={async () => { await fetch("/api/admin/logout", { method: "POST" }); window.location.href = "/admin/login"; }}
+              className="text-sm text-gray-500 hover:text-gray-900"
+            >
+              Sign out
+            </button>
+          </div>
+        </header>
+
+        {(error || state?.error) && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 rounded-r-lg">
+            <p className="text-red-600 text-sm">{error || state?.error}</p>
+          </div>
+        )}
+
+        {/* Freeze */}
+        <section className={`rounded-2xl p-6 shadow flex items-center justify-between ${frozen ? "bg-amber-50" : "bg-white"}`}>
+          <div>
+            <h2 className="font-semibold text-gray-900">{frozen ? "Board is frozen" : "Board is live"}</h2>
+            <p className="text-sm text-gray-500">
+              {frozen
+                ? `Viewers see the snapshot from ${new Date(frozen.updatedAt).toLocaleTimeString()} until you unfreeze.`
+                : "Freeze to keep showing the current standings while you fix the data."}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {/* Under an embargo, "Publish results" below does this */}
+            {frozen && !overrides?.published && !state?.embargo && (
+              <button
+                onClick={() => window.confirm("Announce these standings as the final results?") && act({ action: "publish" })}
+                className="rounded-lg px-4 py-2 font-medium text-white bg-purple-600"
+              >
+                Announce final results
+              </button>
+            )}
+            <button
+              onClick={() => act({ action: frozen ? "unfreeze" : "freeze" })}
+              className={`rounded-lg px-4 py-2 font-medium text-white ${frozen ? "bg-green-600" : "bg-amber-500"}`}
+            >
+              {frozen ? "Unfreeze" : "Freeze"}
+            </button>
+          </div>
+        </section>
+
+        {/* Schedule and embargo */}
+        {lifecycle && (lifecycle.startsAt || lifecycle.endsAt || state?.embargo) && (
+          <section className={`rounded-2xl p-6 shadow flex items-center justify-between gap-4 ${lifecycle.embargo ? "bg-purple-50" : "bg-white"}`}>
+            <div>
+              <h2 className="font-semibold text-gray-900">Schedule: {lifecycle.phase}</h2>
+              <p className="text-sm text-gray-500">Starts {time(lifecycle.startsAt)} · ends {time(lifecycle.endsAt)}</p>
+              {state?.embargo && (
+                <p className="text-sm text-gray-500">
+                  {overrides?.published
+                    ? "Results are published."
+                    : `Viewers see ${EMBARGO_LABELS[state.embargo]} until you publish the results.`}
+                </p>
+              )}
+            </div>
+            {state?.embargo && (
+              <button
+                onClick={() => {
+                  if (!overrides?.published && !window.confirm("Publish the results to everyone?")) return;
+                  act({ action: overrides?.published ? "unpublish" : "publish" });
+                }}
+                className={`rounded-lg px-4 py-2 font-medium text-white ${overrides?.published ? "bg-gray-500" : "bg-purple-600"}`}
+              >
+                {overrides?.published ? "Unpublish" : "Publish results"}
+              </button>
+            )}
+          </section>
+        )}
+
+        {/* Manual scores */}
+        <section className="bg-white rounded-2xl p-6 shadow space-y-4">
+          <h2 className="font-semibold text-gray-900">Add or adjust a score</h2>
+          <ScoreForm onSubmit={(action, name, value) => act({ action, name, value })} />
+          {overrides && Object.keys(overrides.scores).length > 0 && (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {Object.entries(overrides.scores).map(([key, o]) => (
+                <li key={key} className="py-2 flex items-center justify-between">
+                  <span className="text-gray-800">
+                    {o.name}
+                    {o.set !== undefined && <span className="ml-2 text-gray-500">set to {o.set}</span>}
+                    {o.adjust ? <span className="ml-2 text-gray-500">{o.adjust > 0 ? "+" : ""}{o.adjust}</span> : null}
+                  </span>
+                  <button onClick={() => act({ action: "clear-score", name: o.name })} className="text-red-600 hover:underline">Remove</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Standings */}
+        <section className="bg-white rounded-2xl p-6 shadow">
+          <h2 className="font-semibold text-gray-900 mb-3">Standings {frozen && "(frozen snapshot)"}</h2>
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500">
+              <tr><th className="py-1">#</th><th>Name</th><th>Score</th><th></th></tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {state?.rows.map(r => (
+                <tr key={r.name}>
+                  <td className="py-2 text-gray-500">{r.rank}</td>
+                  <td className="text-gray-900">{r.name}</td>
+                  <td className="text-gray-900">{r.score}{r.adjusted && <span className="ml-1 text-amber-600">✎</span>}</td>
+                  <td className="text-right">
+                    <button onClick={() => act({ action: "hide", name: r.name })} className="text-gray-500 hover:text-red-600">Hide</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {overrides && overrides.hidden.length > 0 && (
+            <div className="mt-4 text-sm">
+              <p className="text-gray-500 mb-1">Hidden:</p>
+              <div className="flex flex-wrap gap-2">
+                {overrides.hidden.map(name => (
+                  <button key={name} onClick={() => act({ action: "unhide", name })} className="bg-gray-100 rounded-full px-3 py-1 hover:bg-gray-200">
+                    {name} ✕
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+
+        {/* Data diagnostics */}
+        {state && state.diagnostics.length > 0 && (
+          <section className="bg-white rounded-2xl p-6 shadow">
+            <h2 className="font-semibold text-gray-900 mb-3">Data issues ({state.diagnostics.length})</h2>
+            <DiagnosticsPanel issues={state.diagnostics} />
+          </section>
+        )}
+
+        {/* Audit log */}
+        <section className="bg-white rounded-2xl p-6 shadow">
+          <h2 className="font-semibold text-gray-900 mb-3">Audit log</h2>
+          {state?.audit.length === 0 && <p className="text-sm text-gray-500">No changes yet.</p>}
+          <ul className="text-sm font-mono space-y-1">
+            {state?.audit.map((a, i) => (
+              <li key={i} className="text-gray-700">
+                {new Date(a.at).toLocaleTimeString()} · {a.actor} · {a.action}
+                {a.name && ` · ${a.name}`}
+                {a.value !== undefined && ` · ${a.value}`}
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { RankedParticipant } from "@/lib/scoring";
+
+// ---- Avatar ----
+// Registry photo when there is one and it loads; initials otherwise.
+export default function Avatar({ participant, className, imgStyle, fallbackClassName, fallbackStyle }: {
+  participant: RankedParticipant;
+  className: string;
+  imgStyle?: React.CSSProperties;
+  fallbackClassName: string;
+  fallbackStyle: React.CSSProperties;
+}) {
+  const photo = participant.profile?.photo;
+  const [failed, setFailed] = useState(false);
+  useEffect(() => setFailed(false), [photo]);
+
+  const name = displayName(participant);
+  if (photo && !failed) {
+    return <img src={photo} alt={name} className={`${className} object-cover`} style={imgStyle} onError={() => setFailed(true)} />;
+  }
+  const initials = name.split(" ").map((s: string) => s[0]).join("").slice(0, 2).toUpperCase();
+  return (
+    <div className={`${className} flex items-center justify-center text-white ${fallbackClassName}`} style={fallbackStyle}>
+      {initials}
+    </div>
+  );
+}
+
+export const displayName = (row: RankedParticipant) => row.profile?.name ?? row.name;
@@ -0,0 +1,31 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useI18n } from "./useI18n";
+
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+// ---- Countdown to a scheduled start ----
+// "2 days 04:12:09"; once the time is up it waits for the server to open the board.
+export default function Countdown({ to, className, style }: { to: string; className?: string; style?: React.CSSProperties }) {
+  const { t, locale } = useI18n();
+  const left = Math.max(0, Date.parse(to) - useNow());
+  if (!left) return <span className={className} style={style}>{t("startingSoon")}</span>;
+
+  const seconds = Math.floor(left / 1000);
+  const days = Math.floor(seconds / 86_400);
+  const twoDigits = new Intl.NumberFormat(locale, { minimumIntegerDigits: 2 });
+  const clock = [Math.floor(seconds / 3600) % 24, Math.floor(seconds / 60) % 60, seconds % 60].map(n => twoDigits.format(n)).join(":");
+  return (
+    <time dateTime={to} className={`tabular-nums ${className ?? ""}`} style={style}>
+      {days > 0 && `${t("days", { count: days })} `}<bdi dir="ltr">{clock}</bdi>
+    </time>
+  );
+}
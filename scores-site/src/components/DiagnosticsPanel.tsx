@@ -0,0 +1,35 @@
+import React from "react";
+import type { RowIssue } from "@/lib/scoring";
+
+// ---- Diagnostics Panel ----
+// Source rows that validation dropped or flagged instead of ranking.
+const PROBLEM_LABELS: Record<RowIssue["problem"], string> = {
+  "empty-name": "Empty name",
+  "duplicate-name": "Duplicate name",
+  "non-numeric-score": "Non-numeric score",
+};
+
+export default function DiagnosticsPanel({ issues }: { issues: RowIssue[] }) {
+  return (
+    <table className="w-full text-sm text-start">
+      <thead className="text-board-muted">
+        <tr><th scope="col" className="py-1 pe-3">Row</th><th scope="col" className="pe-3">Name</th><th scope="col" className="pe-3">Problem</th><th scope="col">Details</th></tr>
+      </thead>
+      <tbody className="divide-y divide-board-border">
+        {issues.map((issue, i) => (
+          <tr key={i} className="text-board-text">
+            <td className="py-2 pe-3 font-mono text-board-muted">{issue.row ?? "—"}</td>
+            <td className="pe-3">{issue.name || <span className="text-board-muted">(blank)</span>}</td>
+            <td className="pe-3">
+              {PROBLEM_LABELS[issue.problem]}
+              <span className={`ms-2 text-xs rounded-full px-2 py-0.5 ${issue.action === "dropped" ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-700"}`}>
+                {issue.action}
+              </span>
+            </td>
+            <td className="text-board-muted">{issue.detail}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { embedRows, type EmbedOptions } from "@/lib/embed";
+import { DEFAULT_LOCALE, isLocale, translator, type Locale } from "@/lib/i18n";
+import type { RankedParticipant } from "@/lib/scoring";
+import { resolveTheme, themeStyle, type Theme, type ThemeInput } from "@/lib/theme";
+import Avatar, { displayName } from "./Avatar";
+import Countdown from "./Countdown";
+import MovementBadge from "./MovementBadge";
+import { I18nProvider, useI18n } from "./useI18n";
+import { useLiveScores } from "./useLiveScores";
+
+// ---- Views ----
+function Podium({ rows, theme }: { rows: RankedParticipant[]; theme: Theme }) {
+  const { t, score } = useI18n();
+  // 2nd, 1st, 3rd, so the winner stands in the middle.
+  const order = [2, 1, 3].flatMap(rank => rows.filter(r => r.rank === rank));
+  return (
+    <ol className="flex items-end justify-center gap-3">
+      {order.map(r => {
+        const color = theme.medals[r.rank - 1];
+        return (
+          <li key={r.name} className="flex-1 min-w-0 flex flex-col items-center">
+            <span className="sr-only">{t("place", { rank: r.rank })}</span>
+            <Avatar
+              participant={r}
+              className="w-12 h-12 rounded-full border-4"
+              imgStyle={{ borderColor: color }}
+              fallbackClassName="text-lg font-bold"
+              fallbackStyle={{ backgroundColor: theme.palette.brand, borderColor: color }}
+            />
+            <p className="mt-1 text-sm font-semibold truncate max-w-full">{displayName(r)}</p>
+            <p className="text-sm font-bold" style={{ color }}>{score(r.score)}</p>
+            <div
+              aria-hidden="true"
+              className="mt-1 w-full rounded-t-lg flex items-center justify-center text-xl font-bold text-white"
+              style={{ backgroundColor: color, height: [96, 72, 56][r.rank - 1] }}
+            >
+              {r.rank}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function List({ rows, movement, theme }: {
+  rows: RankedParticipant[];
+  movement: ReturnType<typeof useLiveScores>["movement"];
+  theme: Theme;
+}) {
+  const { score } = useI18n();
+  return (
+    <ol className="space-y-1.5">
+      {rows.map(r => (
+        <li key={r.name} className="flex items-center gap-3 rounded-lg px-3 h-12 bg-board-surface/80 border border-board-border">
+          <span className="w-8 font-bold tabular-nums" style={{ color: r.rank <= 3 ? theme.medals[r.rank - 1] : theme.palette.brand }}>
+            #{r.rank}
+          </span>
+          <Avatar
+            participant={r}
+            className="w-8 h-8 rounded-full"
+            fallbackClassName="text-sm font-semibold"
+            fallbackStyle={{ backgroundColor: theme.palette.brand }}
+          />
+          <span className="flex-1 min-w-0 truncate font-medium">{displayName(r)}</span>
+          <span className="text-xs"><MovementBadge movement={movement[r.name]} /></span>
+          <span className="font-bold tabular-nums">{score(r.score)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// ---- Embeddable widget ----
+// A compact board for iframes on other sites: the podium or the top N, nothing else.
+export default function Embed({ title, logoSrc, brandColor, theme: themeInput, locale, endpoint, streamEndpoint, href, options }: {
+  title: string;
+  logoSrc?: string;
+  brandColor?: string;
+  theme?: ThemeInput;
+  locale?: Locale;
+  endpoint: string;
+  streamEndpoint: string;
+  href: string;                     // the full board
+  options: EmbedOptions;
+}) {
+  const theme = useMemo(() => resolveTheme(themeInput, brandColor), [themeInput, brandColor]);
+  const i18n = useMemo(() => translator(options.locale ?? (isLocale(locale) ? locale : DEFAULT_LOCALE)), [options.locale, locale]);
+  const { t } = i18n;
+  const { rows, movement, loading, error, lifecycle } = useLiveScores(endpoint, streamEndpoint);
+  // The podium can't be shown under either embargo, the list only under a "names" one.
+  const embargoed = lifecycle?.embargo === "names" || (lifecycle?.embargo && options.view === "podium");
+  const shown = embedRows(rows, options);
+
+  const style = themeStyle(theme);
+  if (options.transparent) style.background = "transparent";
+
+  return (
+    <I18nProvider value={i18n}>
+      <div className="min-h-screen p-3 text-sm" style={style} lang={i18n.locale} dir={i18n.dir}>
+        {options.header && (
+          <header className="flex items-center gap-2 mb-3">
+            {logoSrc && <img src={logoSrc} alt={t("logo")} className="w-8 h-8 rounded-lg object-cover" />}
+            <h1 className="flex-1 min-w-0 truncate font-bold text-base">{title}</h1>
+          </header>
+        )}
+
+        {loading ? (
+          <p className="text-board-muted py-6 text-center">{t("loading")}</p>
+        ) : lifecycle?.phase === "upcoming" && lifecycle.startsAt ? (
+          <p className="py-6 text-center">{t("startsIn")} <Countdown to={lifecycle.startsAt} className="font-bold" /></p>
+        ) : embargoed ? (
+          <p className="text-board-muted py-6 text-center">
+            <span aria-hidden="true">🔒 </span>{t(lifecycle?.embargo === "names" ? "embargoNames" : "embargoTop3")}
+          </p>
+        ) : shown.length === 0 ? (
+          <p className="text-board-muted py-6 text-center">{error ? t("loadError") : t("noData")}</p>
+        ) : options.view === "podium" ? (
+          <Podium rows={shown} theme={theme} />
+        ) : (
+          <List rows={shown} movement={movement} theme={theme} />
+        )}
+
+        <a href={href} target="_blank" rel="noopener" className="block mt-3 text-xs text-board-muted hover:underline text-end">
+          {t("fullBoard")} ↗
+        </a>
+      </div>
+    </I18nProvider>
+  );
+}
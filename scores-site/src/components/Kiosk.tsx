@@ -0,0 +1,312 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import type { BoardLifecycle, Movement, RankedParticipant } from "@/lib/scoring";
+import type { Theme } from "@/lib/theme";
+import Avatar, { displayName } from "./Avatar";
+import Countdown from "./Countdown";
+import MovementBadge from "./MovementBadge";
+import StatusBadge, { type BoardStatus } from "./StatusBadge";
+import { useI18n } from "./useI18n";
+
+// ---- Config ----
+// Everything is laid out on a fixed 1080p canvas and scaled to fit the screen.
+const CANVAS_W = 1920;
+const CANVAS_H = 1080;
+const PAGE_SIZE = 8;
+const MOVERS_SHOWN = 5;
+const LINEUP_SHOWN = 15;
+
+type Slide = { kind: "podium" } | { kind: "list"; page: number; pages: number } | { kind: "movers" };
+type Reveal = "hidden" | "countdown" | "revealed";
+
+// ?interval=<seconds>&countdown=<seconds>&reveal=hold
+function readSettings() {
+  const q = new URLSearchParams(window.location.search);
+  return {
+    intervalMs: (Number(q.get("interval")) || 12) * 1000,
+    countdownFrom: Number(q.get("countdown")) || 10,
+    hold: q.get("reveal") === "hold",
+  };
+}
+
+function useFitScale() {
+  const [scale, setScale] = useState(1);
+  useEffect(() => {
+    const fit = () => setScale(Math.min(window.innerWidth / CANVAS_W, window.innerHeight / CANVAS_H));
+    fit();
+    window.addEventListener("resize", fit);
+    return () => window.removeEventListener("resize", fit);
+  }, []);
+  return scale;
+}
+
+// ---- Slides ----
+function PodiumSlide({ rows, masked, brandColor, medals, movement }: {
+  rows: RankedParticipant[];
+  masked: boolean;
+  brandColor: string;
+  medals: Theme["medals"];
+  movement: Record<string, Movement>;
+}) {
+  const { t, score } = useI18n();
+  const top = rows.filter(r => r.rank <= 3);
+  // Under a top-3 embargo the server leaves those rows out, so the spots stay empty.
+  const spots = masked && !top.length
+    ? [1, 2, 3].map(rank => ({ rank, key: `#${rank}`, row: undefined }))
+    : top.map(r => ({ rank: r.rank, key: r.name, row: r }));
+  return (
+    <div className="h-full flex flex-col">
+      <h2 className="text-6xl font-bold text-center mb-16"><span aria-hidden="true">🏆</span> {t("topPerformers")}</h2>
+      <div className="flex-1 flex items-end justify-center gap-16">
+        {spots.map(({ rank, key, row }) => {
+          const color = medals[rank - 1];
+          const shown = !masked && row;
+          return (
+            <div key={key} className="flex flex-col items-center w-80">
+              {shown ? (
+                <Avatar
+                  participant={shown}
+                  className="w-48 h-48 rounded-full border-8"
+                  imgStyle={{ borderColor: color }}
+                  fallbackClassName="text-6xl font-bold"
+                  fallbackStyle={{ backgroundColor: brandColor, borderColor: color }}
+                />
+              ) : (
+                <div className="w-48 h-48 rounded-full border-8 flex items-center justify-center text-8xl font-bold bg-white/10" style={{ borderColor: color }}>?</div>
+              )}
+              <p className="text-4xl font-bold mt-6 text-center truncate w-full">{shown ? displayName(shown) : "???"}</p>
+              <p className="text-5xl font-bold mt-2" style={{ color }}>{shown ? score(shown.score) : "—"}</p>
+              {shown && <div className="mt-2 scale-150"><MovementBadge movement={movement[shown.name]} /></div>}
+              <div
+                className="mt-6 w-64 rounded-t-2xl flex items-center justify-center text-7xl font-bold text-white"
+                style={{ backgroundColor: color, height: [320, 240, 180][rank - 1] }}
+              >
+                {rank}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function RowList({ rows, isMasked, brandColor, movement }: {
+  rows: RankedParticipant[];
+  isMasked: (r: RankedParticipant) => boolean;
+  brandColor: string;
+  movement: Record<string, Movement>;
+}) {
+  const { score } = useI18n();
+  return (
+    <ul className="space-y-4">
+      {rows.map(r => {
+        const masked = isMasked(r);
+        return (
+          <li key={r.name} className="flex items-center gap-8 bg-white/10 rounded-2xl px-8 h-24">
+            <span className="w-20 text-5xl font-bold" style={{ color: brandColor }}>#{r.rank}</span>
+            {masked ? (
+              <div className="w-16 h-16 rounded-full bg-white/20 flex items-center justify-center text-3xl font-bold">?</div>
+            ) : (
+              <Avatar
+                participant={r}
+                className="w-16 h-16 rounded-full"
+                fallbackClassName="text-2xl font-semibold"
+                fallbackStyle={{ backgroundColor: brandColor }}
+              />
+            )}
+            <span className="flex-1 min-w-0 text-4xl font-semibold truncate">
+              {masked ? "???" : displayName(r)}
+              {!masked && r.team && <span className="ms-4 text-2xl text-white/50">{r.team}</span>}
+            </span>
+            {!masked && <span className="text-2xl"><MovementBadge movement={movement[r.name]} /></span>}
+            <span className="text-5xl font-bold tabular-nums">{masked ? "—" : score(r.score)}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+// Before the start, or under an embargo that allows only names.
+function LineupSlide({ lifecycle, brandColor }: { lifecycle: BoardLifecycle; brandColor: string }) {
+  const { t } = useI18n();
+  const lineup = lifecycle.lineup ?? [];
+  return (
+    <div className="h-full flex flex-col items-center">
+      {lifecycle.phase === "upcoming" ? (
+        lifecycle.startsAt && (
+          <>
+            <p className="text-5xl text-white/70">{t("startsIn")}</p>
+            <Countdown to={lifecycle.startsAt} className="text-[10rem] leading-none font-bold mt-4 mb-16" style={{ color: brandColor }} />
+          </>
+        )
+      ) : (
+        <p className="text-5xl text-purple-300 mb-16"><span aria-hidden="true">🔒</span> {t("embargoNames")}</p>
+      )}
+      {lineup.length > 0 && (
+        <>
+          <h2 className="text-5xl font-bold mb-8"><span aria-hidden="true">🎤</span> {t("lineup")}</h2>
+          <ul className="grid grid-cols-3 gap-6 w-full">
+            {lineup.slice(0, LINEUP_SHOWN).map(name => (
+              <li key={name} className="bg-white/10 rounded-2xl px-8 py-6 text-4xl font-semibold truncate">{name}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ---- Kiosk / projector mode ----
+export default function Kiosk({ title, logoSrc, brandColor, medals, rows, movement, status, lifecycle }: {
+  title: string;
+  logoSrc?: string;
+  brandColor: string;
+  medals: Theme["medals"];
+  rows: RankedParticipant[];
+  movement: Record<string, Movement>;
+  status: BoardStatus;
+  lifecycle?: BoardLifecycle;
+}) {
+  const { t, number, locale, dir } = useI18n();
+  const scale = useFitScale();
+  const [settings] = useState(readSettings);
+  const [index, setIndex] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [reveal, setReveal] = useState<Reveal>(settings.hold ? "hidden" : "revealed");
+  const [countdown, setCountdown] = useState(settings.countdownFrom);
+
+  const isMasked = (r: RankedParticipant) => reveal !== "revealed" && r.rank <= 3;
+
+  const movers = useMemo(
+    () => rows
+      .filter(r => !isMasked(r) && movement[r.name] && (movement[r.name].rankDelta > 0 || movement[r.name].scoreDelta > 0))
+      .sort((a, b) => movement[b.name].rankDelta - movement[a.name].rankDelta
+        || movement[b.name].scoreDelta - movement[a.name].scoreDelta)
+      .slice(0, MOVERS_SHOWN),
+    [rows, movement, reveal],
+  );
+
+  const slides = useMemo<Slide[]>(() => {
+    const pages = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+    return [
+      { kind: "podium" },
+      ...Array.from({ length: pages }, (_, page) => ({ kind: "list" as const, page, pages })),
+      ...(movers.length ? [{ kind: "movers" as const }] : []),
+    ];
+  }, [rows.length, movers.length]);
+
+  const slide = slides[index % slides.length];
+  const step = (delta: number) => setIndex(i => (i + delta + slides.length) % slides.length);
+
+  // Auto-advance, unless paused or counting down to the reveal.
+  useEffect(() => {
+    if (paused || reveal === "countdown") return;
+    const timer = window.setTimeout(() => step(1), settings.intervalMs);
+    return () => window.clearTimeout(timer);
+  }, [index, paused, reveal, slides.length]);
+
+  useEffect(() => {
+    if (reveal !== "countdown") return;
+    if (countdown <= 0) {
+      setReveal("revealed");
+      setIndex(0);
+      return;
+    }
+    const timer = window.setTimeout(() => setCountdown(c => c - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [reveal, countdown]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case " ":
+        case "p":
+          e.preventDefault();
+          setPaused(p => !p);
+          break;
+        case "ArrowRight":
+        case "n":
+          step(1);
+          break;
+        case "ArrowLeft":
+        case "b":
+          step(-1);
+          break;
+        case "r":
+          if (reveal === "hidden") {
+            setCountdown(settings.countdownFrom);
+            setReveal("countdown");
+          }
+          break;
+        case "h":
+          setReveal("hidden");
+          break;
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [reveal, slides.length]);
+
+  return (
+    <div className="fixed inset-0 overflow-hidden bg-slate-950 text-white flex items-center justify-center" lang={locale} dir={dir}>
+      <div
+        className="flex-none flex flex-col px-24 py-16"
+        style={{ width: CANVAS_W, height: CANVAS_H, transform: `scale(${scale})` }}
+      >
+        <header className="flex items-center justify-between mb-12">
+          <div className="flex items-center gap-6">
+            {logoSrc && <img src={logoSrc} alt={t("logo")} className="h-20 w-20 rounded-2xl object-cover" />}
+            <h1 className="text-5xl font-bold">{title}</h1>
+          </div>
+          <div className="scale-150 origin-right rtl:origin-left"><StatusBadge status={status} /></div>
+        </header>
+
+        <main className="flex-1 min-h-0">
+          {lifecycle && (lifecycle.phase === "upcoming" || lifecycle.embargo === "names") ? (
+            <LineupSlide lifecycle={lifecycle} brandColor={brandColor} />
+          ) : reveal === "countdown" ? (
+            <div className="h-full flex flex-col items-center justify-center">
+              <p className="text-5xl text-white/70 mb-8">{t("revealIn")}</p>
+              <p className="text-[20rem] leading-none font-bold tabular-nums" style={{ color: brandColor }}>{number(countdown)}</p>
+            </div>
+          ) : slide.kind === "podium" ? (
+            <PodiumSlide rows={rows} masked={reveal === "hidden" || lifecycle?.embargo === "top3"} brandColor={brandColor} medals={medals} movement={movement} />
+          ) : slide.kind === "list" ? (
+            <div>
+              <h2 className="text-5xl font-bold mb-8">
+                <span aria-hidden="true">📊</span> {t("allParticipants", { count: rows.length })}
+                {slide.pages > 1 && <span className="text-white/50"> · {number(slide.page + 1)}/{number(slide.pages)}</span>}
+              </h2>
+              <RowList
+                rows={rows.slice(slide.page * PAGE_SIZE, (slide.page + 1) * PAGE_SIZE)}
+                isMasked={isMasked}
+                brandColor={brandColor}
+                movement={movement}
+              />
+            </div>
+          ) : (
+            <div>
+              <h2 className="text-5xl font-bold mb-8"><span aria-hidden="true">🚀</span> {t("biggestMovers")}</h2>
+              <RowList rows={movers} isMasked={isMasked} brandColor={brandColor} movement={movement} />
+            </div>
+          )}
+        </main>
+
+        <footer className="flex items-center justify-between text-2xl text-white/40 mt-8">
+          <div className="flex gap-3">
+            {slides.map((_, i) => (
+              <span key={i} className={`w-4 h-4 rounded-full ${i === index % slides.length ? "bg-white" : "bg-white/20"}`} />
+            ))}
+          </div>
+          <span>
+            {paused && <span className="text-amber-400 me-6">⏸ {t("paused")}</span>}
+            {t("kioskKeys")}{reveal === "hidden" && ` · ${t("kioskRevealKey")}`}
+          </span>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import React from "react";
+import type { Movement } from "@/lib/scoring";
+import { useI18n } from "./useI18n";
+
+// ---- Movement Badge ----
+// Arrows are for sighted viewers; screen readers get the words instead.
+export default function MovementBadge({ movement }: { movement?: Movement }) {
+  const { t, number } = useI18n();
+  if (!movement) return null;
+  if (movement.isNew) {
+    return <span className="text-xs font-semibold text-blue-700 bg-blue-100 px-2 py-0.5 rounded-full">{t("movementNew")}</span>;
+  }
+  const { rankDelta, scoreDelta } = movement;
+  if (!rankDelta && !scoreDelta) return null;
+  return (
+    <span className="inline-flex items-center gap-1 text-xs font-semibold">
+      {rankDelta > 0 && (
+        <span className="text-green-600">
+          <span aria-hidden="true">▲{number(rankDelta)}</span>
+          <span className="sr-only">{t("movedUp", { count: rankDelta })}</span>
+        </span>
+      )}
+      {rankDelta < 0 && (
+        <span className="text-red-500">
+          <span aria-hidden="true">▼{number(-rankDelta)}</span>
+          <span className="sr-only">{t("movedDown", { count: -rankDelta })}</span>
+        </span>
+      )}
+      {scoreDelta !== 0 && (
+        <span className="text-gray-500" dir="ltr">{scoreDelta > 0 ? "+" : ""}{number(scoreDelta)}</span>
+      )}
+    </span>
+  );
+}
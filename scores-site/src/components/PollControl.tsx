@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useState } from "react";
+
+// ---- Poll Control ----
+// Picks who the audience is rating; voting is closed while nobody is selected.
+export default function PollControl({ pollId, presenters, initialCurrent }: {
+  pollId: string;
+  presenters: string[];
+  initialCurrent: string | null;
+}) {
+  const [current, setCurrent] = useState(initialCurrent);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const update = async (next: string | null) => {
+    try {
+      const res = await fetch("/api/admin/polls", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ poll: pollId, current: next }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Update failed: ${res.status}`);
+      setCurrent(json.current);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        {current ? <>Now rating <strong className="text-gray-900">{current}</strong></> : "Voting is closed."}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {presenters.map(p => (
+          <button
+            key={p}
+            onClick={() => update(p)}
+            className={`rounded-full px-3 py-1 text-sm ${p === current ? "bg-gray-900 text-white" : "bg-gray-100 hover:bg-gray-200"}`}
+          >
+            {p}
+          </button>
+        ))}
+      </div>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim()) update(name.trim());
+          setName("");
+        }}
+      >
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Other presenter" className="border border-gray-200 rounded-lg px-3 py-2 flex-1" />
+        <button type="submit" className="bg-gray-900 text-white rounded-lg px-4 py-2 font-medium">Start</button>
+        <button type="button" onClick={() => update(null)} disabled={!current} className="rounded-lg px-4 py-2 font-medium bg-gray-100 disabled:opacity-50">
+          Close voting
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
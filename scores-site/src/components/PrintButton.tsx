@@ -0,0 +1,15 @@
+"use client";
+
+import React from "react";
+
+export default function PrintButton({ brandColor }: { brandColor: string }) {
+  return (
+    <button
+      onClick={() => window.print()}
+      className="px-4 py-2 rounded-lg text-sm font-medium text-white shadow"
+      style={{ backgroundColor: brandColor }}
+    >
+      🖨 Print
+    </button>
+  );
+}
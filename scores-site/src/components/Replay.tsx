@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { diffSnapshots, type Snapshot } from "@/lib/scoring";
+import { useI18n } from "./useI18n";
+
+// ---- Config ----
+const STEP_MS = 1500;
+
+// ---- Replay hook ----
+// Loads the board's stored snapshots on demand and steps through them.
+// `frame` is null while the board is showing live data.
+export function useReplay(historyEndpoint: string) {
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const start = async () => {
+    setError(null);
+    try {
+      const res = await fetch(historyEndpoint, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `History fetch failed: ${res.status}`);
+      const list = json.snapshots as Snapshot[];
+      if (!list.length) throw new Error("No history recorded for this board yet");
+      setSnapshots(list);
+      setIndex(0);
+      setPlaying(true);
+    } catch (e: any) {
+      setError(e.message || "Failed to load history");
+    }
+  };
+
+  const stop = () => {
+    setSnapshots(null);
+    setPlaying(false);
+  };
+
+  useEffect(() => {
+    if (!playing || !snapshots) return;
+    if (index >= snapshots.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => setIndex(i => i + 1), STEP_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, index, snapshots]);
+
+  const frame = useMemo(() => {
+    if (!snapshots) return null;
+    const current = snapshots[index];
+    const prev = snapshots[index - 1];
+    return { ...current, movement: prev ? diffSnapshots(prev.rows, current.rows) : {} };
+  }, [snapshots, index]);
+
+  return {
+    frame,
+    index,
+    count: snapshots?.length ?? 0,
+    playing,
+    error,
+    start,
+    stop,
+    seek: (i: number) => { setPlaying(false); setIndex(i); },
+    togglePlay: () => {
+      if (snapshots && index >= snapshots.length - 1) setIndex(0);
+      setPlaying(p => !p);
+    },
+  };
+}
+
+// ---- Replay bar ----
+export default function ReplayBar({ replay, brandColor }: { replay: ReturnType<typeof useReplay>; brandColor: string }) {
+  const { t, dateTime, number } = useI18n();
+  if (!replay.frame) {
+    return (
+      <div className="flex items-center justify-end gap-3 mb-6">
+        {replay.error && <span className="text-sm text-board-muted">{replay.error}</span>}
+        <button
+          onClick={replay.start}
+          className="px-3 py-1.5 rounded-full text-sm font-medium bg-board-surface/80 text-board-text border border-board-border hover:bg-board-surface"
+        >
+          <span aria-hidden="true">⏪</span> {t("replayHistory")}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 mb-6 bg-board-surface/90 rounded-2xl px-4 py-3 shadow border border-board-border">
+      <button
+        onClick={replay.togglePlay}
+        className="w-9 h-9 rounded-full text-white font-bold"
+        style={{ backgroundColor: brandColor }}
+        aria-label={t(replay.playing ? "replayPause" : "replayPlay")}
+      >
+        {replay.playing ? "⏸" : "▶"}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={replay.count - 1}
+        value={replay.index}
+        onChange={(e) => replay.seek(Number(e.target.value))}
+        className="flex-1 min-w-40"
+        aria-label={t("replaySnapshot")}
+      />
+      <span className="text-sm text-board-muted tabular-nums">
+        {dateTime(new Date(replay.frame.updatedAt))} · {number(replay.index + 1)}/{number(replay.count)}
+      </span>
+      <button onClick={replay.stop} className="px-3 py-1.5 rounded-full text-sm font-medium bg-board-border text-board-text hover:bg-board-border/70">
+        {t("backToLive")}
+      </button>
+    </div>
+  );
+}
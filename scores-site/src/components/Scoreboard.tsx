@@ -1,179 +1,105 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { DEFAULT_LOCALE, isLocale, translator, type Locale, type MessageKey, type Translator } from "@/lib/i18n";
+import type { BoardLifecycle, GroupKind, GroupStanding, Movement, RankedParticipant } from "@/lib/scoring";
+import Avatar, { displayName } from "./Avatar";
+import Countdown from "./Countdown";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+import Kiosk from "./Kiosk";
+import MovementBadge from "./MovementBadge";
+import ReplayBar, { useReplay } from "./Replay";
+import StatusBadge, { boardStatus, type BoardStatus } from "./StatusBadge";
+import { I18nProvider, useI18n } from "./useI18n";
+import { alpha, resolveTheme, themeStyle, type Theme, type ThemeInput } from "@/lib/theme";
+import { REFRESH_MS, useLiveScores } from "./useLiveScores";
 
 // ---- Config ----
-const REFRESH_MS = 10_000;
-const NAME_COL = "Name";
-const SCORE_COL = "Sum";
-const COUNT_COL = "Count";
-const AVG_COL = "Avg";
-
-// Local photos mapped by *exact* Name from the sheet
-const PHOTO_BY_NAME: Record<string, string> = {
-  "Midhuna": "/photos/Midhuna.jpg",
-  "Aswanth": "/photos/Aswanth.jpg",
-  "Abin Sheen": "/photos/AbinSheen.jpg",
-  "Rahul": "/photos/Rahul.jpg",
-  "Aswathi": "/photos/Aswathi.jpg",
-  "Jishnu": "/photos/Jishnu.jpg",
-  "Hameed": "/photos/Hameed.jpg",
-  "Deepak": "/photos/Deepak.jpg",
-  "Anugrah": "/photos/Anugrah.jpg",
-  "Arun": "/photos/Arun.jpg",
-  "Gautham": "/photos/Gautham.jpg",
-  "Sanjay": "/photos/Sanjay.jpg",
-  "Muhsin": "/photos/Muhsin.jpg",
-  "Nidheesh": "/photos/Nidheesh.jpg",
-  "Asha": "/photos/Asha.jpg",
-};
+const REORDER_MS = 700;
 
 // ---- Floating Background Elements ----
-function BackgroundElements() {
+// Purely decorative; they hold still for viewers who prefer reduced motion.
+function BackgroundElements({ decor }: { decor: Theme["palette"]["decor"] }) {
+  const [a, b, c] = decor;
+  const fade = (color: string) => `linear-gradient(to bottom right, ${color}, transparent)`;
   return (
-    <div className="fixed inset-0 overflow-hidden pointer-events-none">
+    <div aria-hidden="true" className="fixed inset-0 overflow-hidden pointer-events-none">
       {/* Animated circles */}
-      <div className="absolute -top-40 -right-40 w-80 h-80 bg-purple-100 rounded-full opacity-30 animate-pulse"></div>
-      <div className="absolute top-1/2 -left-20 w-60 h-60 bg-blue-100 rounded-full opacity-20 animate-bounce" style={{animationDuration: '3s'}}></div>
-      <div className="absolute bottom-10 right-1/4 w-40 h-40 bg-green-100 rounded-full opacity-25 animate-pulse" style={{animationDelay: '1s'}}></div>
+      <div className="absolute -top-40 -right-40 w-80 h-80 rounded-full opacity-30 animate-pulse motion-reduce:animate-none" style={{ backgroundColor: a }}></div>
+      <div className="absolute top-1/2 -left-20 w-60 h-60 rounded-full opacity-20 animate-bounce motion-reduce:animate-none" style={{ backgroundColor: b, animationDuration: '3s' }}></div>
+      <div className="absolute bottom-10 right-1/4 w-40 h-40 rounded-full opacity-25 animate-pulse motion-reduce:animate-none" style={{ backgroundColor: c, animationDelay: '1s' }}></div>
       
       {/* Floating geometric shapes */}
-      <div className="absolute top-1/4 left-1/4 w-6 h-6 bg-purple-200 rotate-45 opacity-40 animate-spin" style={{animationDuration: '8s'}}></div>
-      <div className="absolute top-3/4 right-1/3 w-4 h-4 bg-blue-200 rounded-full opacity-30 animate-bounce" style={{animationDuration: '4s', animationDelay: '2s'}}></div>
-      <div className="absolute bottom-1/3 left-1/3 w-8 h-2 bg-green-200 opacity-30 animate-pulse" style={{animationDelay: '3s'}}></div>
+      <div className="absolute top-1/4 left-1/4 w-6 h-6 rotate-45 opacity-40 animate-spin motion-reduce:animate-none" style={{ backgroundColor: a, animationDuration: '8s' }}></div>
+      <div className="absolute top-3/4 right-1/3 w-4 h-4 rounded-full opacity-30 animate-bounce motion-reduce:animate-none" style={{ backgroundColor: b, animationDuration: '4s', animationDelay: '2s' }}></div>
+      <div className="absolute bottom-1/3 left-1/3 w-8 h-2 opacity-30 animate-pulse motion-reduce:animate-none" style={{ backgroundColor: c, animationDelay: '3s' }}></div>
       
       {/* Gradient orbs */}
-      <div className="absolute top-20 right-1/3 w-32 h-32 bg-gradient-to-br from-purple-200 to-transparent rounded-full opacity-20 animate-pulse"></div>
-      <div className="absolute bottom-40 left-1/4 w-24 h-24 bg-gradient-to-br from-blue-200 to-transparent rounded-full opacity-15 animate-bounce" style={{animationDuration: '5s'}}></div>
+      <div className="absolute top-20 right-1/3 w-32 h-32 rounded-full opacity-20 animate-pulse motion-reduce:animate-none" style={{ background: fade(a) }}></div>
+      <div className="absolute bottom-40 left-1/4 w-24 h-24 rounded-full opacity-15 animate-bounce motion-reduce:animate-none" style={{ background: fade(b), animationDuration: '5s' }}></div>
     </div>
   );
 }
 
-// ---- CSV helpers ----
-function parseCSV(csvText: string): string[][] {
-  const firstLine = csvText.split(/\r?\n/)[0] ?? "";
-  const useSemicolon = firstLine.includes(";") && !firstLine.includes(",");
-  const delim = useSemicolon ? ";" : ",";
-
-  const rows: string[][] = [];
-  let i = 0, cur = "", row: string[] = [], inQuotes = false;
-
-  while (i < csvText.length) {
-    const c = csvText[i];
-    if (inQuotes) {
-      if (c === '"') {
-        if (csvText[i + 1] === '"') { cur += '"'; i++; }
-        else { inQuotes = false; }
-      } else {
-        cur += c;
-      }
-    } else {
-      if (c === '"') inQuotes = true;
-      else if (c === delim) { row.push(cur); cur = ""; }
-      else if (c === "\n") { row.push(cur); rows.push(row); row = []; cur = ""; }
-      else if (c === "\r") { /* ignore */ }
-      else { cur += c; }
-    }
-    i++;
-  }
-  row.push(cur);
-  rows.push(row);
-  return rows.filter(r => r.length && r.some(cell => (cell ?? "").trim() !== ""));
-}
-
-async function fetchFromCSV(csvUrl: string) {
-  const res = await fetch(csvUrl, { cache: "no-store" });
-  if (!res.ok) throw new Error(`CSV fetch failed: ${res.status}`);
-  const text = await res.text();
-  const rows = parseCSV(text);
-  if (!rows.length) return [];
-
-  const [header, ...data] = rows;
-  const norm = (s: string) => (s ?? "").trim().toLowerCase();
-  const headerIdx: Record<string, number> = {};
-  header.forEach((h, i) => (headerIdx[norm(h)] = i));
-
-  const nameIdx = headerIdx[norm(NAME_COL)];
-  const sumIdx = headerIdx[norm(SCORE_COL)];
-  const countIdx = headerIdx[norm(COUNT_COL)];
-  const avgIdx = headerIdx[norm(AVG_COL)];
-
-  if (nameIdx === undefined || sumIdx === undefined) return [];
-
-  return data.map(r => ({
-    name: (r[nameIdx] ?? "").trim(),
-    sum: (r[sumIdx] ?? "").trim(),
-    count: (r[countIdx] ?? "").trim(),
-    avg: (r[avgIdx] ?? "").trim(),
-  }));
-}
-
-async function fetchFromSheetsApi(apiKey: string, sheetId: string, range: string) {
-  const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${encodeURIComponent(range)}?key=${apiKey}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) throw new Error(`Sheets API fetch failed: ${res.status}`);
-  const json = await res.json();
-  const values: string[][] = json.values || [];
-  if (!values.length) return [];
-  const [header, ...data] = values;
-  const norm = (s: string) => (s ?? "").trim().toLowerCase();
-  const headerIdx: Record<string, number> = {};
-  header.forEach((h: string, i: number) => (headerIdx[norm(h)] = i));
-
-  const nameIdx = headerIdx[norm(NAME_COL)];
-  const sumIdx = headerIdx[norm(SCORE_COL)];
-  const countIdx = headerIdx[norm(COUNT_COL)];
-  const avgIdx = headerIdx[norm(AVG_COL)];
-
-  if (nameIdx === undefined || sumIdx === undefined) return [];
-
-  return data.map((r: string[]) => ({
-    name: (r[nameIdx] ?? "").trim(),
-    sum: (r[sumIdx] ?? "").trim(),
-    count: (r[countIdx] ?? "").trim(),
-    avg: (r[avgIdx] ?? "").trim(),
-  }));
-}
-
-// ---- Ranking helper ----
-function withRanks<T extends { scoreNum: number }>(items: T[]) {
-  const sorted = [...items].sort((a, b) => b.scoreNum - a.scoreNum);
-  let lastScore: number | null = null; let lastRank = 0;
-  return sorted.map((item, idx) => {
-    const rank = (lastScore === item.scoreNum) ? lastRank : (idx + 1);
-    lastScore = item.scoreNum; lastRank = rank;
-    return { ...item, rank };
-  });
+// ---- FLIP reorder animation ----
+// Remembers where each keyed element was and slides it from there to its new spot.
+function useFlip(order: string[]) {
+  const nodes = useRef(new Map<string, HTMLElement>());
+  const positions = useRef(new Map<string, { x: number; y: number }>());
+  const orderKey = order.join("\u0000");
+
+  useLayoutEffect(() => {
+    const reduceMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+    positions.current.forEach((_, key) => {
+      if (!nodes.current.has(key)) positions.current.delete(key);
+    });
+    nodes.current.forEach((el, key) => {
+      const rect = el.getBoundingClientRect();
+      const next = { x: rect.left + window.scrollX, y: rect.top + window.scrollY };
+      const prev = positions.current.get(key);
+      positions.current.set(key, next);
+      if (!prev || reduceMotion) return;
+      const dx = prev.x - next.x, dy = prev.y - next.y;
+      if (!dx && !dy) return;
+      el.animate(
+        [{ transform: `translate(${dx}px, ${dy}px)` }, { transform: "translate(0, 0)" }],
+        { duration: REORDER_MS, easing: "cubic-bezier(0.2, 0, 0.2, 1)" },
+      );
+    });
+  }, [orderKey]);
+
+  return (key: string) => (el: HTMLElement | null) => {
+    if (el) nodes.current.set(key, el);
+    else nodes.current.delete(key);
+  };
 }
 
 // ---- Header Component ----
-function Header({ title, logoSrc, lastUpdated }: { title: string; logoSrc?: string; lastUpdated?: Date }) {
+function Header({ title, logoSrc, lastUpdated, status }: { title: string; logoSrc?: string; lastUpdated?: Date; status: BoardStatus }) {
+  const { t, time } = useI18n();
   return (
-    <header className="relative z-10 bg-white/95 backdrop-blur-sm border-b border-gray-100 shadow-sm">
+    <header className="relative z-10 bg-board-surface/95 backdrop-blur-sm border-b border-board-border shadow-sm">
       <div className="max-w-7xl mx-auto px-4 py-6">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             {logoSrc && (
               <img
                 src={logoSrc}
-                alt="Logo"
+                alt={t("logo")}
                 className="h-12 w-12 rounded-xl object-cover shadow-md"
               />
             )}
             <div>
-              <h1 className="text-3xl md:text-4xl font-bold text-gray-900">{title}</h1>
-              <p className="text-sm text-gray-500 mt-1">Real-time presentation scores</p>
+              <h1 className="font-heading text-3xl md:text-4xl font-bold text-board-text">{title}</h1>
+              <p className="text-sm text-board-muted mt-1">{t("subtitle")}</p>
             </div>
           </div>
           
-          <div className="text-right">
-            <div className="flex items-center space-x-2 text-green-600 bg-green-50 px-3 py-2 rounded-full">
-              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-              <span className="text-sm font-medium">LIVE</span>
-            </div>
+          <div className="text-end">
+            <StatusBadge status={status} />
             {lastUpdated && (
-              <p className="text-xs text-gray-400 mt-1">
-                Updated {lastUpdated.toLocaleTimeString()}
+              <p className="text-xs text-board-muted mt-1">
+                {t("updated", { time: time(lastUpdated) })}
               </p>
             )}
           </div>
@@ -183,248 +109,662 @@ function Header({ title, logoSrc, lastUpdated }: { title: string; logoSrc?: stri
   );
 }
 
+// ---- Board Tabs (rounds / overall) ----
+export type BoardLink = { href: string; label: string; active?: boolean };
+
+function BoardTabs({ links, brandColor }: { links: BoardLink[]; brandColor: string }) {
+  return (
+    <nav className="relative z-10 max-w-7xl mx-auto px-4 pt-6 flex flex-wrap gap-2">
+      {links.map(link => (
+        <a
+          key={link.href}
+          href={link.href}
+          className={`px-4 py-2 rounded-full text-sm font-medium shadow-sm transition-colors ${
+            link.active ? "text-white" : "bg-board-surface/90 text-board-text hover:bg-board-surface"
+          }`}
+          style={link.active ? { backgroundColor: brandColor } : undefined}
+        >
+          {link.label}
+        </a>
+      ))}
+    </nav>
+  );
+}
+
 // ---- Podium Component ----
-function Podium({ top3, brandColor }: { top3: any[]; brandColor: string }) {
-  const podiumColors = ['#FFD700', '#C0C0C0', '#CD7F32']; // Gold, Silver, Bronze
+// Everyone ranked 1–3 gets a spot, so ties share a medal and short boards still get a podium.
+// Medal colors and the crown are decoration; each spot also says its rank in words.
+function Podium({ top3, brandColor, medals, movement, title }: {
+  top3: RankedParticipant[];
+  brandColor: string;
+  medals: Theme["medals"];
+  movement: Record<string, Movement>;
+  title: string;
+}) {
+  const { t, score } = useI18n();
+  const flipRef = useFlip(top3.map(p => p.name));
   const podiumHeights = ['h-32', 'h-24', 'h-20'];
   
   return (
     <section className="relative z-10 mb-12">
-      <h2 className="text-2xl font-bold text-gray-900 mb-8 text-center">🏆 Top Performers</h2>
-      <div className="flex justify-center items-end space-x-4 max-w-4xl mx-auto">
-        {top3.map((performer, index) => {
-          const initials = performer.name.split(" ").map((s: string) => s[0]).join("").slice(0, 2).toUpperCase();
-          const position = index === 0 ? 1 : index === 1 ? 2 : 3;
-          const actualIndex = position === 1 ? 0 : position === 2 ? 1 : 2;
+      <h2 className="font-heading text-2xl font-bold text-board-text mb-8 text-center"><span aria-hidden="true">🏆</span> {title}</h2>
+      <ol className="flex justify-center items-end space-x-4 max-w-4xl mx-auto">
+        {top3.map((performer) => {
+          const position: number = performer.rank;
+          const actualIndex = position - 1;
           
           return (
-            <div key={performer.name} className="flex flex-col items-center">
+            <li key={performer.name} ref={flipRef(performer.name)} className="flex flex-col items-center">
+              <span className="sr-only">{t("place", { rank: position })}</span>
               {/* Avatar */}
               <div className="mb-4 relative">
-                {PHOTO_BY_NAME[performer.name] ? (
-                  <img 
-                    src={PHOTO_BY_NAME[performer.name]} 
-                    alt={performer.name}
-                    className="w-20 h-20 rounded-full object-cover border-4 shadow-lg"
-                    style={{ borderColor: podiumColors[actualIndex] }}
-                  />
-                ) : (
-                  <div 
-                    className="w-20 h-20 rounded-full flex items-center justify-center text-white font-bold border-4 shadow-lg"
-                    style={{ backgroundColor: brandColor, borderColor: podiumColors[actualIndex] }}
-                  >
-                    {initials}
-                  </div>
-                )}
-                {/* Crown for 1st place */}
+                <Avatar
+                  participant={performer}
+                  className="w-20 h-20 rounded-full border-4 shadow-lg"
+                  imgStyle={{ borderColor: medals[actualIndex] }}
+                  fallbackClassName="font-bold"
+                  fallbackStyle={{ backgroundColor: brandColor, borderColor: medals[actualIndex] }}
+                />
+                {/* Crown for 1st place (every tied winner) */}
                 {position === 1 && (
-                  <div className="absolute -top-2 -right-2 text-2xl">👑</div>
+                  <div aria-hidden="true" className="absolute -top-2 -end-2 text-2xl">👑</div>
                 )}
               </div>
               
               {/* Name and Score */}
               <div className="text-center mb-4">
-                <h3 className="font-bold text-gray-900">{performer.name}</h3>
-                <p className="text-2xl font-bold" style={{ color: brandColor }}>{performer.sum}</p>
-                <p className="text-sm text-gray-500">Avg: {performer.avg}</p>
+                <h3 className="font-bold text-board-text">{displayName(performer)}</h3>
+                <p className="text-2xl font-bold" style={{ color: brandColor }}>{score(performer.score)}</p>
+                <p className="text-sm text-board-muted">{t("averageShort", { value: score(performer.avg) })}</p>
+                <MovementBadge movement={movement[performer.name]} />
               </div>
               
               {/* Podium */}
               <div 
+                aria-hidden="true"
                 className={`w-24 ${podiumHeights[actualIndex]} rounded-t-lg flex items-center justify-center text-white font-bold text-xl shadow-lg`}
-                style={{ backgroundColor: podiumColors[actualIndex] }}
+                style={{ backgroundColor: medals[actualIndex] }}
               >
                 {position}
               </div>
-            </div>
+            </li>
           );
         })}
-      </div>
+      </ol>
+    </section>
+  );
+}
+
+// ---- Schedule notices ----
+function EmbargoNotice({ message }: { message: string }) {
+  return (
+    <p role="note" className="relative z-10 mb-8 rounded-2xl border border-purple-200 bg-purple-50 px-6 py-4 text-center text-purple-800">
+      <span aria-hidden="true">🔒 </span>{message}
+    </p>
+  );
+}
+
+// Shown instead of the standings before the start, and under an embargo that allows only names.
+function LineupPanel({ lifecycle, brandColor }: { lifecycle: BoardLifecycle; brandColor: string }) {
+  const { t, dateTime } = useI18n();
+  const lineup = lifecycle.lineup ?? [];
+  return (
+    <section className="relative z-10">
+      {lifecycle.phase === "upcoming" ? (
+        lifecycle.startsAt && (
+          <div className="text-center mb-12">
+            <p className="text-lg text-board-muted">{t("startsIn")}</p>
+            <Countdown to={lifecycle.startsAt} className="block font-heading text-5xl md:text-6xl font-bold mt-2" style={{ color: brandColor }} />
+            <p className="text-sm text-board-muted mt-3">{t("startsAt", { time: dateTime(new Date(lifecycle.startsAt)) })}</p>
+          </div>
+        )
+      ) : (
+        <EmbargoNotice message={t("embargoNames")} />
+      )}
+
+      {lineup.length > 0 && (
+        <>
+          <h2 className="font-heading text-2xl font-bold text-board-text mb-6"><span aria-hidden="true">🎤 </span>{t("lineup")}</h2>
+          <ul className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {lineup.map(name => (
+              <li key={name} className="bg-board-surface/90 rounded-xl px-5 py-4 border border-board-border font-semibold text-board-text truncate">
+                {name}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
     </section>
   );
 }
 
 // ---- Participant Card ----
-function ParticipantCard({ participant, brandColor }: { participant: any; brandColor: string }) {
-  const initials = participant.name.split(" ").map((s: string) => s[0]).join("").slice(0, 2).toUpperCase();
-  
+function ParticipantCard({ participant, brandColor, movement, href }: {
+  participant: RankedParticipant;
+  brandColor: string;
+  movement?: Movement;
+  href: string;
+}) {
+  const { t, score, number } = useI18n();
+  const subtitle = [participant.profile?.title, participant.team, participant.category].filter(Boolean).join(" · ");
+
   return (
-    <div className="bg-white/90 backdrop-blur-sm rounded-2xl p-6 shadow-lg hover:shadow-xl transition-all duration-300 border border-gray-100 hover:border-gray-200 group">
+    <div className="bg-board-surface/90 backdrop-blur-sm rounded-2xl p-6 shadow-lg hover:shadow-xl transition-all duration-300 border border-board-border hover:border-board-brand/30 group">
       <div className="flex items-center space-x-4">
         {/* Rank */}
         <div 
           className="w-12 h-12 rounded-full flex items-center justify-center text-white font-bold shadow-md"
           style={{ backgroundColor: brandColor }}
         >
-          #{participant.rank}
+          <span aria-hidden="true">#{participant.rank}</span>
+          <span className="sr-only">{t("place", { rank: participant.rank })}</span>
         </div>
         
         {/* Avatar */}
-        {PHOTO_BY_NAME[participant.name] ? (
-          <img 
-            src={PHOTO_BY_NAME[participant.name]} 
-            alt={participant.name}
-            className="w-16 h-16 rounded-xl object-cover shadow-md group-hover:scale-105 transition-transform"
-          />
-        ) : (
-          <div 
-            className="w-16 h-16 rounded-xl flex items-center justify-center text-white font-semibold shadow-md group-hover:scale-105 transition-transform"
-            style={{ backgroundColor: `${brandColor}80` }}
-          >
-            {initials}
-          </div>
-        )}
+        <Avatar
+          participant={participant}
+          className="w-16 h-16 rounded-xl shadow-md group-hover:scale-105 transition-transform"
+          fallbackClassName="font-semibold"
+          fallbackStyle={{ backgroundColor: alpha(brandColor, 50) }}
+        />
         
         {/* Info */}
         <div className="flex-1 min-w-0">
-          <h3 className="font-bold text-gray-900 text-lg truncate">{participant.name}</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="font-bold text-board-text text-lg truncate">
+              <a href={href} className="hover:underline" title={t("scoreHistory")}>{displayName(participant)}</a>
+            </h3>
+            <MovementBadge movement={movement} />
+          </div>
+          {subtitle && <p className="text-xs text-board-muted truncate">{subtitle}</p>}
           <div className="flex space-x-4 mt-2">
             <div className="text-center">
-              <p className="text-xs text-gray-500">Score</p>
-              <p className="font-bold text-lg" style={{ color: brandColor }}>{participant.sum}</p>
+              <p className="text-xs text-board-muted">{t("score")}</p>
+              <p className="font-bold text-lg" style={{ color: brandColor }}>
+                {score(participant.score)}
+                {participant.adjusted && <span className="ms-1 text-xs text-board-muted" title={t("adjusted")} aria-label={t("adjusted")}>✎</span>}
+                {participant.warning && <span className="ms-1 text-xs text-amber-500" title={participant.warning} aria-label={participant.warning}>⚠</span>}
+              </p>
             </div>
             <div className="text-center">
-              <p className="text-xs text-gray-500">Count</p>
-              <p className="font-semibold text-gray-700">{participant.count}</p>
+              <p className="text-xs text-board-muted">{t("count")}</p>
+              <p className="font-semibold text-board-text">{score(participant.count)}</p>
             </div>
             <div className="text-center">
-              <p className="text-xs text-gray-500">Average</p>
-              <p className="font-semibold text-gray-700">{participant.avg}</p>
+              <p className="text-xs text-board-muted">{t("average")}</p>
+              <p className="font-semibold text-board-text">{score(participant.avg)}</p>
             </div>
+            {participant.median && (
+              <div className="text-center">
+                <p className="text-xs text-board-muted">{t("median")}</p>
+                <p className="font-semibold text-board-text">{score(participant.median)}</p>
+              </div>
+            )}
           </div>
+          {participant.breakdown && participant.breakdown.length > 0 && (
+            <p className="mt-2 text-xs text-board-muted" title={t("breakdown")}>
+              {participant.breakdown.map((p, i) => (
+                <span key={p.label}>
+                  {i > 0 && " + "}
+                  {p.label} <span className="font-medium text-board-text">{p.value ? score(p.value) : "—"}</span> × {number(Math.round(p.share * 100))}%
+                </span>
+              ))}
+            </p>
+          )}
+          {participant.extra.length > 0 && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-board-muted">
+              {participant.extra.map(f => (
+                <span key={f.label}>
+                  {f.label}: <span className="font-medium text-board-text">{f.value || "—"}</span>
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
+// ---- Grouping (individual / by team / by category) ----
+type View = "individual" | GroupKind;
+
+const VIEW_LABELS: Record<View, MessageKey> = { individual: "viewIndividual", team: "viewTeam", category: "viewCategory" };
+
+type Section = { key: string; heading: string; podiumTitle: string; rows: RankedParticipant[] };
+
+function GroupToggle({ views, view, filter, groupNames, brandColor, onChange }: {
+  views: View[];
+  view: View;
+  filter: string | null;
+  groupNames: string[];
+  brandColor: string;
+  onChange: (view: View, filter: string | null) => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="relative z-10 flex flex-wrap items-center gap-2 mb-8">
+      {views.map(v => (
+        <button
+          key={v}
+          onClick={() => onChange(v, null)}
+          aria-pressed={v === view}
+          className={`px-4 py-2 rounded-full text-sm font-medium shadow-sm ${v === view ? "text-white" : "bg-board-surface/90 text-board-text hover:bg-board-surface"}`}
+          style={v === view ? { backgroundColor: brandColor } : undefined}
+        >
+          {t(VIEW_LABELS[v])}
+        </button>
+      ))}
+      {view !== "individual" && (
+        <select
+          value={filter ?? ""}
+          onChange={(e) => onChange(view, e.target.value || null)}
+          aria-label={t(view === "team" ? "allTeams" : "allCategories")}
+          className="ms-auto bg-board-surface/90 border border-board-border rounded-full px-4 py-2 text-sm text-board-text"
+        >
+          <option value="">{t(view === "team" ? "allTeams" : "allCategories")}</option>
+          {groupNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      )}
+    </div>
+  );
+}
+
+function GroupStandings({ kind, standings, filter, brandColor, onSelect }: {
+  kind: GroupKind;
+  standings: GroupStanding[];
+  filter: string | null;
+  brandColor: string;
+  onSelect: (name: string) => void;
+}) {
+  const { t, score } = useI18n();
+  return (
+    <section className="relative z-10 mb-12">
+      <h2 className="font-heading text-2xl font-bold text-board-text mb-6">
+        <span aria-hidden="true">🏅</span> {t(kind === "team" ? "teamStandings" : "categoryStandings")}
+      </h2>
+      <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+        {standings.map(g => (
+          <button
+            key={g.name}
+            onClick={() => onSelect(g.name)}
+            aria-pressed={g.name === filter}
+            className={`flex items-center space-x-4 bg-board-surface/90 rounded-2xl p-4 shadow text-start hover:shadow-lg transition-shadow ${g.name === filter ? "ring-2" : ""}`}
+            style={g.name === filter ? { ["--tw-ring-color" as string]: brandColor } : undefined}
+          >
+            <span className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold" style={{ backgroundColor: brandColor }}>
+              <span aria-hidden="true">#{g.rank}</span>
+              <span className="sr-only">{t("place", { rank: g.rank })}</span>
+            </span>
+            <span className="flex-1 min-w-0">
+              <span className="block font-bold text-board-text truncate">{g.name}</span>
+              <span className="block text-xs text-board-muted">{t("members", { count: Number(g.count) })}</span>
+            </span>
+            <span className="font-bold text-lg" style={{ color: brandColor }}>{score(g.score)}</span>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+// ---- Table layout ----
+// The same standings as a real table, for screen readers and anyone who prefers a plain list.
+type Layout = "cards" | "table";
+
+function LayoutToggle({ layout, brandColor, onChange }: { layout: Layout; brandColor: string; onChange: (layout: Layout) => void }) {
+  const { t } = useI18n();
+  return (
+    <div role="group" aria-label={t("layout")} className="relative z-10 flex justify-end gap-1 mb-6">
+      {(["cards", "table"] as const).map(l => (
+        <button
+          key={l}
+          onClick={() => onChange(l)}
+          aria-pressed={l === layout}
+          className={`px-3 py-1.5 rounded-full text-sm font-medium ${l === layout ? "text-white" : "bg-board-surface/80 text-board-text hover:bg-board-surface"}`}
+          style={l === layout ? { backgroundColor: brandColor } : undefined}
+        >
+          {t(l === "cards" ? "layoutCards" : "layoutTable")}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function StandingsTable({ caption, rows, movement, boardQuery }: {
+  caption: string;
+  rows: RankedParticipant[];
+  movement: Record<string, Movement>;
+  boardQuery: string;
+}) {
+  const { t, score, number } = useI18n();
+  return (
+    <div className="overflow-x-auto bg-board-surface/90 rounded-2xl shadow border border-board-border">
+      <table className="w-full text-start text-board-text">
+        <caption className="sr-only">{caption}</caption>
+        <thead className="text-xs uppercase text-board-muted border-b border-board-border">
+          <tr>
+            <th scope="col" className="px-4 py-3 text-start">{t("rank")}</th>
+            <th scope="col" className="px-4 py-3 text-start">{t("name")}</th>
+            <th scope="col" className="px-4 py-3 text-end">{t("score")}</th>
+            <th scope="col" className="px-4 py-3 text-end">{t("count")}</th>
+            <th scope="col" className="px-4 py-3 text-end">{t("average")}</th>
+            <th scope="col" className="px-4 py-3 text-start">{t("change")}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-board-border">
+          {rows.map(r => (
+            <tr key={r.name}>
+              <td className="px-4 py-3 font-bold tabular-nums">{number(r.rank)}</td>
+              <th scope="row" className="px-4 py-3 text-start font-semibold">
+                <a href={`/participants/${encodeURIComponent(r.name)}${boardQuery}`} className="hover:underline">{displayName(r)}</a>
+                {(r.team || r.category) && <span className="ms-2 text-xs font-normal text-board-muted">{[r.team, r.category].filter(Boolean).join(" · ")}</span>}
+              </th>
+              <td className="px-4 py-3 text-end font-bold tabular-nums">{score(r.score)}</td>
+              <td className="px-4 py-3 text-end tabular-nums">{score(r.count)}</td>
+              <td className="px-4 py-3 text-end tabular-nums">{score(r.avg)}</td>
+              <td className="px-4 py-3"><MovementBadge movement={movement[r.name]} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ---- Screen reader announcements ----
+const ANNOUNCED_CHANGES = 3;
+
+// Sums up who moved in the latest change, e.g. "Asha moved up to rank 1, and 2 more changes".
+function describeChanges(rows: RankedParticipant[], movement: Record<string, Movement>, { t }: Translator) {
+  const changes = rows.flatMap(r => {
+    const m = movement[r.name];
+    const vars = { name: displayName(r), rank: r.rank };
+    if (m?.isNew) return [t("announceNew", vars)];
+    if (m?.rankDelta) return [t(m.rankDelta > 0 ? "announceUp" : "announceDown", vars)];
+    return [];
+  });
+  const shown = changes.slice(0, ANNOUNCED_CHANGES);
+  if (changes.length > shown.length) shown.push(t("announceMore", { count: changes.length - shown.length }));
+  return shown.join(", ");
+}
+
 // ---- Main Scoreboard Component ----
 export default function Scoreboard(props: {
   title?: string;
   logoSrc?: string;
-  brandColor?: string;
-  csvUrl?: string;
-  apiKey?: string; 
-  sheetId?: string; 
-  range?: string;
+  brandColor?: string;              // overrides the theme's brand color
+  theme?: ThemeInput;
+  endpoint?: string;
+  streamEndpoint?: string;
+  historyEndpoint?: string;
+  boardQuery?: string;
+  links?: BoardLink[];
+  locale?: Locale;
 }) {
   const {
     title = "Live Scores",
     logoSrc,
-    brandColor = "#6366f1",
-    csvUrl, 
-    apiKey, 
-    sheetId, 
-    range,
+    endpoint = "/api/scores",
+    streamEndpoint = "/api/scores/stream",
+    historyEndpoint = "/api/scores/history",
+    boardQuery = "",
+    links,
   } = props;
 
-  const [rows, setRows] = useState<any[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [lastUpdated, setLastUpdated] = useState<Date | undefined>();
-  const timerRef = useRef<number | null>(null);
-
-  const fetchData = async () => {
-    try {
-      setError(null);
-      let raw: { name: string; sum: string; count: string; avg: string }[] = [];
-
-      if (csvUrl) raw = await fetchFromCSV(csvUrl);
-      else if (apiKey && sheetId && range) raw = await fetchFromSheetsApi(apiKey, sheetId, range);
-      else throw new Error("Provide csvUrl OR apiKey+sheetId+range");
-
-      const aggregated = raw.map((r) => ({
-        ...r,
-        sum: r.sum.trim(),
-        count: r.count.trim(),
-        avg: r.avg.trim(),
-        scoreNum: parseFloat(r.sum) || 0,
-      }));
+  const theme = useMemo(() => resolveTheme(props.theme, props.brandColor), [props.theme, props.brandColor]);
+  const brandColor = theme.palette.brand;
+  const live = useLiveScores(endpoint, streamEndpoint);
+  const { error, loading, lastUpdated, diagnostics, lifecycle } = live;
+  const status = boardStatus(live.status, lifecycle);
+  const lineupOnly = lifecycle?.phase === "upcoming" || lifecycle?.embargo === "names";
+  const replay = useReplay(historyEndpoint);
+  // While replaying, the board shows the selected snapshot instead of live data.
+  const { rows, groups, movement } = replay.frame ?? live;
+  const [view, setView] = useState<View>("individual");
+  const [filter, setFilter] = useState<string | null>(null);
+  const [kiosk, setKiosk] = useState(false);
+  const [layout, setLayout] = useState<Layout>("cards");
+  const [lang, setLang] = useState<Locale | null>(null);
+  const i18n = useMemo(
+    () => translator(lang ?? (isLocale(props.locale) ? props.locale : DEFAULT_LOCALE)),
+    [lang, props.locale],
+  );
+  const { t } = i18n;
+  const announcement = useMemo(() => describeChanges(live.rows, live.movement, i18n), [live.rows, live.movement, i18n]);
 
-      const ranked = withRanks(aggregated);
-      setRows(ranked);
-      setLastUpdated(new Date());
-    } catch (e: any) {
-      setError(e.message || "Failed to load data");
-    } finally {
-      setLoading(false);
-    }
+  // The selected view and group live in the URL (?view=team&group=CSE) so links can be shared;
+  // ?mode=kiosk switches to the projector presentation, ?layout=table to the table layout and
+  // ?lang=<locale> overrides the board's language.
+  useEffect(() => {
+    const read = () => {
+      const q = new URLSearchParams(window.location.search);
+      const v = q.get("view");
+      const l = q.get("lang");
+      setView(v === "team" || v === "category" ? v : "individual");
+      setFilter(q.get("group"));
+      setKiosk(q.get("mode") === "kiosk");
+      setLayout(q.get("layout") === "table" ? "table" : "cards");
+      setLang(isLocale(l) ? l : null);
+    };
+    read();
+    window.addEventListener("popstate", read);
+    return () => window.removeEventListener("popstate", read);
+  }, []);
+
+  const selectView = (nextView: View, nextFilter: string | null) => {
+    setView(nextView);
+    setFilter(nextFilter);
+    const url = new URL(window.location.href);
+    if (nextView === "individual") url.searchParams.delete("view");
+    else url.searchParams.set("view", nextView);
+    if (nextFilter) url.searchParams.set("group", nextFilter);
+    else url.searchParams.delete("group");
+    window.history.pushState(null, "", url);
   };
 
-  useEffect(() => {
-    fetchData();
-    timerRef.current = window.setInterval(fetchData, REFRESH_MS);
-    return () => { if (timerRef.current) window.clearInterval(timerRef.current); };
-  }, [csvUrl, apiKey, sheetId, range]);
+  const selectLayout = (next: Layout) => {
+    setLayout(next);
+    const url = new URL(window.location.href);
+    if (next === "cards") url.searchParams.delete("layout");
+    else url.searchParams.set("layout", next);
+    window.history.replaceState(null, "", url);
+  };
 
-  const top3 = useMemo(() => rows.slice(0, 3), [rows]);
-  const remaining = useMemo(() => rows.slice(3), [rows]);
+  const views = useMemo(
+    () => ["individual", ...(["team", "category"] as const).filter(k => groups?.[k]?.length)] as View[],
+    [groups],
+  );
+  const activeView = views.includes(view) ? view : "individual";
+  const standings = useMemo(
+    () => (activeView === "individual" ? [] : groups?.[activeView] ?? []),
+    [activeView, groups],
+  );
+
+  const sections = useMemo<Section[]>(() => {
+    if (activeView === "individual") {
+      return [{ key: "all", heading: t("allParticipants", { count: rows.length }), podiumTitle: t("topPerformers"), rows }];
+    }
+    const byName = new Map(rows.map(r => [r.name, r]));
+    return standings
+      .filter(g => !filter || g.name === filter)
+      .map(g => ({
+        key: g.name,
+        heading: `${g.name} (${g.members.length})`,
+        podiumTitle: g.name,
+        rows: g.members.flatMap(m => {
+          const row = byName.get(m.name);
+          return row ? [{ ...row, rank: m.rank }] : [];
+        }),
+      }));
+  }, [activeView, rows, standings, filter, t]);
+
+  const flipRef = useFlip(sections.flatMap(s => s.rows.map(r => `${s.key}:${r.name}`)));
+
+  if (kiosk) {
+    return (
+      <I18nProvider value={i18n}>
+        <Kiosk
+        title={title}
+        logoSrc={logoSrc}
+        brandColor={brandColor}
+        medals={theme.medals}
+        rows={live.rows}
+        movement={live.movement}
+        status={status}
+        lifecycle={lifecycle}
+        />
+      </I18nProvider>
+    );
+  }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 relative">
-      <BackgroundElements />
+    <I18nProvider value={i18n}>
+      <div className="min-h-screen relative" style={themeStyle(theme)} lang={i18n.locale} dir={i18n.dir}>
+        {theme.background === "shapes" && <BackgroundElements decor={theme.palette.decor} />}
+        <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
       
-      <Header title={title} logoSrc={logoSrc} lastUpdated={lastUpdated} />
+        <Header title={title} logoSrc={logoSrc} lastUpdated={lastUpdated} status={status} />
+        {links && links.length > 0 && <BoardTabs links={links} brandColor={brandColor} />}
       
-      <main className="relative z-10 max-w-7xl mx-auto px-4 py-8">
-        {loading && (
-          <div className="flex items-center justify-center py-20">
-            <div className="text-center">
-              <div className="w-12 h-12 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
-              <p className="text-gray-600">Loading scores...</p>
+        <main className="relative z-10 max-w-7xl mx-auto px-4 py-8">
+          {loading && (
+            <div className="flex items-center justify-center py-20">
+              <div className="text-center">
+                <div className="w-12 h-12 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-board-muted">{t("loading")}</p>
+              </div>
             </div>
-          </div>
-        )}
+          )}
         
-        {error && (
-          <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-8 rounded-r-lg">
-            <div className="flex">
-              <div className="ml-3">
-                <p className="text-red-700 font-medium">Error loading data</p>
-                <p className="text-red-600 text-sm">{error}</p>
+          {/* Keep showing the last good rows while the source is failing, and say how old they are */}
+          {error && live.rows.length > 0 && (
+            <div role="status" className="bg-amber-50 border-s-4 border-amber-400 p-4 mb-8 rounded-e-lg">
+              <div className="flex">
+                <div className="ms-3">
+                  <p className="text-amber-800 font-medium">
+                    {lastUpdated ? t("lastGoodDataFrom", { time: i18n.shortTime(lastUpdated) }) : t("lastGoodData")}
+                  </p>
+                  <p className="text-amber-700 text-sm">{error}</p>
+                </div>
               </div>
             </div>
-          </div>
-        )}
-
-        {rows.length > 0 && (
-          <>
-            {/* Podium for top 3 */}
-            {top3.length >= 3 && (
-              <Podium top3={top3} brandColor={brandColor} />
-            )}
-            
-            {/* All participants */}
-            <section className="relative z-10">
-              <h2 className="text-2xl font-bold text-gray-900 mb-6">
-                📊 All Participants ({rows.length})
-              </h2>
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {rows.map((participant: any) => (
-                  <ParticipantCard
-                    key={`${participant.rank}-${participant.name}`}
-                    participant={participant}
-                    brandColor={brandColor}
-                  />
-                ))}
+          )}
+
+          {error && live.rows.length === 0 && (
+            <div role="alert" className="bg-red-50 border-s-4 border-red-400 p-4 mb-8 rounded-e-lg">
+              <div className="flex">
+                <div className="ms-3">
+                  <p className="text-red-700 font-medium">{t("loadError")}</p>
+                  <p className="text-red-600 text-sm">{error}</p>
+                </div>
               </div>
-            </section>
-          </>
-        )}
-
-        {!loading && rows.length === 0 && !error && (
-          <div className="text-center py-20">
-            <div className="text-6xl mb-4">📊</div>
-            <p className="text-xl text-gray-600 mb-2">No data found</p>
-            <p className="text-gray-500">Check your sheet headers and data source</p>
-          </div>
-        )}
-
-        {/* Footer */}
-        <footer className="mt-16 text-center text-sm text-gray-500">
-          <p>Updates automatically every {REFRESH_MS / 1000} seconds</p>
-        </footer>
-      </main>
-    </div>
+            </div>
+          )}
+
+          {lifecycle && lineupOnly && <LineupPanel lifecycle={lifecycle} brandColor={brandColor} />}
+
+          {!lineupOnly && rows.length > 0 && (
+            <>
+              <ReplayBar replay={replay} brandColor={brandColor} />
+
+              {views.length > 1 && (
+                <GroupToggle
+                  views={views}
+                  view={activeView}
+                  filter={filter}
+                  groupNames={standings.map(g => g.name)}
+                  brandColor={brandColor}
+                  onChange={selectView}
+                />
+              )}
+
+              {activeView !== "individual" && (
+                <GroupStandings
+                  kind={activeView}
+                  standings={standings}
+                  filter={filter}
+                  brandColor={brandColor}
+                  onSelect={(name) => selectView(activeView, name === filter ? null : name)}
+                />
+              )}
+
+              <LayoutToggle layout={layout} brandColor={brandColor} onChange={selectLayout} />
+
+              {lifecycle?.embargo === "top3" && <EmbargoNotice message={t("embargoTop3")} />}
+
+              {sections.map(section => (
+                <div key={section.key} className="mb-16">
+                  {/* Podium for top 3 */}
+                  {layout === "cards" && section.rows.some(r => r.rank <= 3) && (
+                    <Podium
+                      top3={section.rows.filter(r => r.rank <= 3)}
+                      brandColor={brandColor}
+                      medals={theme.medals}
+                      movement={movement}
+                      title={section.podiumTitle}
+                    />
+                  )}
+
+                  {/* All participants */}
+                  <section className="relative z-10">
+                    <h2 className="font-heading text-2xl font-bold text-board-text mb-6">
+                      {section.key === "all" && <span aria-hidden="true">📊 </span>}{section.heading}
+                    </h2>
+                    {layout === "table" ? (
+                      <StandingsTable caption={section.heading} rows={section.rows} movement={movement} boardQuery={boardQuery} />
+                    ) : (
+                      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                        {section.rows.map((participant) => (
+                          <div key={participant.name} ref={flipRef(`${section.key}:${participant.name}`)}>
+                            <ParticipantCard
+                              participant={participant}
+                              brandColor={brandColor}
+                              movement={movement[participant.name]}
+                              href={`/participants/${encodeURIComponent(participant.name)}${boardQuery}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </section>
+                </div>
+              ))}
+            </>
+          )}
+
+          {!loading && !lineupOnly && rows.length === 0 && !error && (
+            <div className="text-center py-20">
+              <div aria-hidden="true" className="text-6xl mb-4">📊</div>
+              <p className="text-xl text-board-muted mb-2">{t("noData")}</p>
+              <p className="text-board-muted">{t("noRows")}</p>
+            </div>
+          )}
+
+          {diagnostics.length > 0 && (
+            <details className="mt-12 bg-board-surface/80 rounded-2xl p-4 border border-board-border text-sm">
+              <summary className="cursor-pointer text-board-muted">
+                <span aria-hidden="true">⚠</span> {t("diagnostics", { count: diagnostics.length })}
+              </summary>
+              <div className="mt-3">
+                <DiagnosticsPanel issues={diagnostics} />
+              </div>
+            </details>
+          )}
+
+          {/* Footer */}
+          <footer className="mt-16 text-center text-sm text-board-muted">
+            <p>
+              {lifecycle?.phase === "closed" ? t("closedNotice")
+                : live.status === "live" ? t("footerLive")
+                : t("footerPolling", { seconds: REFRESH_MS / 1000 })}
+            </p>
+            <p className="mt-2">
+              <a href={`/results${boardQuery}`} className="hover:underline">{t("results")}</a>
+            </p>
+          </footer>
+        </main>
+      </div>
+    </I18nProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import React from "react";
+import type { MessageKey } from "@/lib/i18n";
+import type { BoardLifecycle } from "@/lib/scoring";
+import { useI18n } from "./useI18n";
+import type { ConnectionState } from "./useLiveScores";
+
+// The connection state while the board is live; otherwise where its schedule stands.
+export type BoardStatus = ConnectionState | "upcoming" | "embargo" | "closed";
+
+export function boardStatus(connection: ConnectionState, lifecycle?: BoardLifecycle): BoardStatus {
+  if (lifecycle?.phase === "upcoming") return "upcoming";
+  if (lifecycle?.embargo) return "embargo";
+  if (lifecycle?.phase === "closed") return "closed";
+  return connection;
+}
+
+const STATUS_BADGE: Record<BoardStatus, { label: MessageKey; badge: string; dot: string }> = {
+  live: { label: "statusLive", badge: "text-green-600 bg-green-50", dot: "bg-green-500 animate-pulse" },
+  reconnecting: { label: "statusReconnecting", badge: "text-amber-600 bg-amber-50", dot: "bg-amber-500 animate-ping" },
+  stale: { label: "statusStale", badge: "text-gray-600 bg-gray-100", dot: "bg-gray-400" },
+  upcoming: { label: "statusUpcoming", badge: "text-blue-600 bg-blue-50", dot: "bg-blue-500" },
+  embargo: { label: "statusEmbargo", badge: "text-purple-600 bg-purple-50", dot: "bg-purple-500" },
+  closed: { label: "statusClosed", badge: "text-gray-700 bg-gray-100", dot: "bg-gray-700" },
+};
+
+// ---- Board Status Badge ----
+// role="status" lets screen readers announce when the connection drops or recovers.
+export default function StatusBadge({ status }: { status: BoardStatus }) {
+  const { t } = useI18n();
+  const badge = STATUS_BADGE[status];
+  return (
+    <div role="status" className={`flex items-center space-x-2 px-3 py-2 rounded-full ${badge.badge}`}>
+      <div aria-hidden="true" className={`w-2 h-2 rounded-full motion-reduce:animate-none ${badge.dot}`}></div>
+      <span className="text-sm font-medium">{t(badge.label)}</span>
+    </div>
+  );
+}
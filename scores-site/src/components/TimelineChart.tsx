@@ -0,0 +1,49 @@
+import React from "react";
+
+// ---- Timeline chart ----
+// Plain SVG line chart over time; server-rendered, no client JS.
+const W = 640;
+const H = 200;
+const PAD = { top: 16, right: 16, bottom: 28, left: 44 };
+
+export default function TimelineChart({ points, color, invert = false, format = String }: {
+  points: { at: string; value: number }[];
+  color: string;
+  invert?: boolean;                 // rank charts put 1 at the top
+  format?: (v: number) => string;
+}) {
+  if (points.length === 0) return null;
+
+  const times = points.map(p => new Date(p.at).getTime());
+  const values = points.map(p => p.value);
+  const [t0, t1] = [Math.min(...times), Math.max(...times)];
+  let [v0, v1] = [Math.min(...values), Math.max(...values)];
+  if (v0 === v1) { v0 -= 1; v1 += 1; }
+
+  const x = (t: number) => PAD.left + (t1 === t0 ? 0.5 : (t - t0) / (t1 - t0)) * (W - PAD.left - PAD.right);
+  const y = (v: number) => {
+    const f = (v - v0) / (v1 - v0);
+    return PAD.top + (invert ? f : 1 - f) * (H - PAD.top - PAD.bottom);
+  };
+  const time = (t: number) => new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  const path = points.map((p, i) => `${i ? "L" : "M"}${x(times[i]).toFixed(1)},${y(p.value).toFixed(1)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img">
+      {[v0, v1].map(v => (
+        <g key={v}>
+          <line x1={PAD.left} x2={W - PAD.right} y1={y(v)} y2={y(v)} stroke="#e5e7eb" />
+          <text x={PAD.left - 6} y={y(v) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{format(v)}</text>
+        </g>
+      ))}
+      <text x={PAD.left} y={H - 8} fontSize="11" fill="#6b7280">{time(t0)}</text>
+      <text x={W - PAD.right} y={H - 8} textAnchor="end" fontSize="11" fill="#6b7280">{time(t1)}</text>
+      <path d={path} fill="none" stroke={color} strokeWidth="2.5" strokeLinejoin="round" />
+      {points.map((p, i) => (
+        <circle key={p.at} cx={x(times[i])} cy={y(p.value)} r="3.5" fill={color}>
+          <title>{`${new Date(p.at).toLocaleString()}: ${format(p.value)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
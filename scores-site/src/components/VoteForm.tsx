@@ -0,0 +1,122 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+
+// ---- Config ----
+const STATE_POLL_MS = 5_000;   // how often the page checks who is presenting
+
+type PollView = {
+  title: string;
+  criteria: { id: string; label: string; max: number }[];
+  current: string | null;
+  judge: string | null;
+  voted: boolean;
+};
+
+// ---- Vote Form ----
+// Follows the poll's current presenter and submits one rating per presenter.
+export default function VoteForm({ pollId, token }: { pollId: string; token?: string }) {
+  const endpoint = `/api/vote/${encodeURIComponent(pollId)}`;
+  const [poll, setPoll] = useState<PollView | null>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const presenterRef = useRef<string | null | undefined>(undefined);
+
+  const load = async () => {
+    try {
+      const res = await fetch(`${endpoint}${token ? `?token=${encodeURIComponent(token)}` : ""}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Load failed: ${res.status}`);
+      const view = json as PollView;
+      // Start each presenter from the middle of every scale.
+      if (presenterRef.current !== view.current) {
+        presenterRef.current = view.current;
+        setScores(Object.fromEntries(view.criteria.map(c => [c.id, Math.round(c.max / 2)])));
+        setError(null);
+      }
+      setPoll(view);
+    } catch (e: any) {
+      setError(e.message || "Failed to load the poll");
+    }
+  };
+
+  useEffect(() => {
+    load();
+    const timer = window.setInterval(load, STATE_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [endpoint, token]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!poll?.current) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ presenter: poll.current, scores, token }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Vote failed: ${res.status}`);
+      setPoll({ ...poll, voted: true });
+    } catch (e: any) {
+      setError(e.message);
+      load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-slate-50 px-4 py-10">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-lg p-8 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">{poll?.title ?? "Audience vote"}</h1>
+        {poll?.judge && <p className="text-sm text-indigo-700">Signed in as judge <strong>{poll.judge}</strong></p>}
+
+        {!poll && !error && <p className="text-gray-500">Loading…</p>}
+
+        {poll && !poll.current && (
+          <p className="text-gray-600">Voting is closed right now. This page updates when the next presenter is up.</p>
+        )}
+
+        {poll?.current && poll.voted && (
+          <p className="text-green-700">Thanks! Your vote for <strong>{poll.current}</strong> is in. Stay on this page for the next presenter.</p>
+        )}
+
+        {poll?.current && !poll.voted && (
+          <form onSubmit={submit} className="space-y-5">
+            <p className="text-gray-600">Rate <strong className="text-gray-900">{poll.current}</strong></p>
+            {poll.criteria.map(c => (
+              <label key={c.id} className="block">
+                <span className="flex justify-between text-sm font-medium text-gray-700">
+                  {c.label}
+                  <span className="tabular-nums">{scores[c.id] ?? 0} / {c.max}</span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={c.max}
+                  step={1}
+                  value={scores[c.id] ?? 0}
+                  onChange={(e) => setScores({ ...scores, [c.id]: Number(e.target.value) })}
+                  className="w-full mt-2"
+                />
+              </label>
+            ))}
+            <button
+              type="submit"
+              disabled={busy}
+              className="w-full bg-gray-900 text-white rounded-lg py-3 font-medium disabled:opacity-50"
+            >
+              {busy ? "Sending…" : "Submit vote"}
+            </button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+"use client";
+
+import React, { createContext, useContext } from "react";
+import { translator, type Translator } from "@/lib/i18n";
+
+// ---- Locale context ----
+// The board picks the locale and provides its translator; components outside a board get English.
+const I18nContext = createContext<Translator>(translator());
+
+export function I18nProvider({ value, children }: { value: Translator; children: React.ReactNode }) {
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  diffSnapshots, rowsSignature,
+  type BoardLifecycle, type Movement, type RankedParticipant, type RowIssue, type Snapshot,
+} from "@/lib/scoring";
+
+// ---- Config ----
+export const REFRESH_MS = 10_000;   // polling fallback while the stream is down
+const MAX_BACKOFF_MS = 30_000;
+
+export type ConnectionState = "live" | "reconnecting" | "stale";
+
+// ---- Live scores hook ----
+// Subscribes to the SSE stream, falls back to polling while it is down, and
+// tracks how each participant moved since the last change. Once the board's
+// schedule closes it and no embargo holds the results back, the final snapshot
+// stays and nothing is fetched any more.
+export function useLiveScores(endpoint: string, streamEndpoint: string) {
+  const [rows, setRows] = useState<RankedParticipant[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date | undefined>();
+  const [status, setStatus] = useState<ConnectionState>("reconnecting");
+  const [movement, setMovement] = useState<Record<string, Movement>>({});
+  const [groups, setGroups] = useState<Snapshot["groups"]>();
+  const [diagnostics, setDiagnostics] = useState<RowIssue[]>([]);
+  const [lifecycle, setLifecycle] = useState<BoardLifecycle>();
+  const streamOpenRef = useRef(false);
+  const stopRef = useRef<() => void>(() => {});
+  const prevSnapshotRef = useRef<{ rows: RankedParticipant[]; signature: string } | null>(null);
+
+  const applyPayload = (payload: Snapshot) => {
+    // A stale payload is the server's last good data while the source is failing.
+    setError(payload.staleError ?? null);
+    setLastUpdated(new Date(payload.updatedAt));
+    setLoading(false);
+    setDiagnostics(payload.diagnostics ?? []);
+    setLifecycle(payload.lifecycle);
+    // Under an embargo, keep listening so the results appear when they're published.
+    if (payload.lifecycle?.phase === "closed" && !payload.lifecycle.embargo) stopRef.current();
+
+    // Keep the last movement on screen until the rows actually change again.
+    const signature = rowsSignature(payload.rows);
+    const prev = prevSnapshotRef.current;
+    if (prev?.signature === signature) return;
+    if (prev) setMovement(diffSnapshots(prev.rows, payload.rows));
+    prevSnapshotRef.current = { rows: payload.rows, signature };
+    setRows(payload.rows);
+    setGroups(payload.groups);
+  };
+
+  const fetchData = async () => {
+    try {
+      const res = await fetch(endpoint, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `Scores fetch failed: ${res.status}`);
+      applyPayload(json as Snapshot);
+    } catch (e: any) {
+      setError(e.message || "Failed to load data");
+      if (!streamOpenRef.current) setStatus("stale");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let pollTimer: number | null = null;
+    let retryTimer: number | null = null;
+    let attempt = 0;
+    let stopped = false;
+
+    const startPolling = () => {
+      if (pollTimer === null) pollTimer = window.setInterval(fetchData, REFRESH_MS);
+    };
+    const stopPolling = () => {
+      if (pollTimer !== null) window.clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const connect = () => {
+      if (stopped) return;
+      source = new EventSource(streamEndpoint);
+      source.addEventListener("snapshot", (e) => {
+        attempt = 0;
+        streamOpenRef.current = true;
+        stopPolling();
+        setStatus("live");
+        applyPayload(JSON.parse((e as MessageEvent).data));
+      });
+      source.addEventListener("source-error", (e) => {
+        setError(JSON.parse((e as MessageEvent).data).error);
+        setStatus("stale");
+      });
+      source.onerror = () => {
+        // Take over reconnection ourselves so we can back off and poll meanwhile.
+        source?.close();
+        streamOpenRef.current = false;
+        setStatus("reconnecting");
+        startPolling();
+        const delay = Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempt++);
+        retryTimer = window.setTimeout(connect, delay);
+      };
+    };
+
+    const stop = () => {
+      stopped = true;
+      source?.close();
+      stopPolling();
+      if (retryTimer !== null) window.clearTimeout(retryTimer);
+      streamOpenRef.current = false;
+    };
+    stopRef.current = stop;
+
+    fetchData();
+    if (typeof EventSource === "undefined") startPolling();
+    else connect();
+
+    return stop;
+  }, [endpoint, streamEndpoint]);
+
+  return { rows, groups, movement, diagnostics, status, error, loading, lastUpdated, lifecycle };
+}
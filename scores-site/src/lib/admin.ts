@@ -0,0 +1,106 @@
+import { recordAudit } from "./audit";
+import { resolveBoard, type BoardRef } from "./events";
+import { notifyFinalResults } from "./notifications";
+import { updateBoardOverrides } from "./overrides";
+import { nameKey } from "./participants";
+import { getScores, invalidateScores } from "./scores";
+
+// ---- Operator actions ----
+export type AdminAction =
+  | { action: "set-score"; name: string; value: number }
+  | { action: "adjust-score"; name: string; value: number }
+  | { action: "clear-score"; name: string }
+  | { action: "hide"; name: string }
+  | { action: "unhide"; name: string }
+  | { action: "freeze" }
+  | { action: "unfreeze" }
+  | { action: "publish" }
+  | { action: "unpublish" };
+
+export class AdminActionError extends Error {}
+
+function validate(input: unknown): AdminAction {
+  if (typeof input !== "object" || input === null) throw new AdminActionError("An action object is required");
+  const { action, name: rawName, value: rawValue } = input as { action?: unknown; name?: unknown; value?: unknown };
+  const name = typeof rawName === "string" ? rawName.trim() : "";
+  const value = Number(rawValue);
+  switch (action) {
+    case "set-score":
+    case "adjust-score":
+      if (!name) throw new AdminActionError("A participant name is required");
+      if (!Number.isFinite(value)) throw new AdminActionError("Score must be a number");
+      return { action, name, value };
+    case "clear-score":
+    case "hide":
+    case "unhide":
+      if (!name) throw new AdminActionError("A participant name is required");
+      return { action, name };
+    case "freeze":
+    case "unfreeze":
+    case "publish":
+    case "unpublish":
+      return { action };
+    default:
+      throw new AdminActionError(`Unknown action "${String(action)}"`);
+  }
+}
+
+export async function runAdminAction(board: BoardRef, input: unknown, actor: string) {
+  resolveBoard(board);
+  const action = validate(input);
+
+  // Freeze captures what viewers see right now, before anything else changes.
+  const snapshot = action.action === "freeze" ? await getScores(board) : null;
+
+  await recordAudit({
+    actor,
+    board,
+    action: action.action,
+    name: "name" in action ? action.name : undefined,
+    value: "value" in action ? action.value : undefined,
+  });
+
+  let published = false;
+  const overrides = await updateBoardOverrides(board, (o) => {
+    switch (action.action) {
+      case "set-score": {
+        const k = nameKey(action.name);
+        o.scores[k] = { ...o.scores[k], name: action.name, set: action.value, adjust: undefined };
+        break;
+      }
+      case "adjust-score": {
+        const k = nameKey(action.name);
+        const prev = o.scores[k];
+        o.scores[k] = { ...prev, name: prev?.name ?? action.name, adjust: (prev?.adjust ?? 0) + action.value };
+        break;
+      }
+      case "clear-score":
+        delete o.scores[nameKey(action.name)];
+        break;
+      case "hide":
+        if (!o.hidden.some(n => nameKey(n) === nameKey(action.name))) o.hidden.push(action.name);
+        break;
+      case "unhide":
+        o.hidden = o.hidden.filter(n => nameKey(n) !== nameKey(action.name));
+        break;
+      case "freeze":
+        o.frozen = snapshot;
+        break;
+      case "unfreeze":
+        o.frozen = null;
+        break;
+      case "publish":
+        published = !o.published;
+        o.published = true;
+        break;
+      case "unpublish":
+        o.published = false;
+        break;
+    }
+  });
+
+  invalidateScores(board);
+  // A freeze is only a hold while fixes are made; the results are final once they are published.
+  if (published && overrides.frozen) notifyFinalResults(board, overrides.frozen);
+  return overrides;
+}
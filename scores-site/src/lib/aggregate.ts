@@ -0,0 +1,107 @@
+import { cell, columnFinder, formatScore, splitHeader, toNumber } from "./columns";
+import type { ColumnMapping, RawColumns, ScoringConfig } from "./config";
+import { nameKey } from "./participants";
+import type { RowIssue, ParticipantRow } from "./scoring";
+
+// ---- Raw response aggregation ----
+type Submission = {
+  presenter: string;
+  judge: string;
+  team: string;
+  category: string;
+  total: number;
+  time: number;
+  order: number;
+};
+
+function median(sorted: number[]) {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Submissions with a blank or non-numeric criterion are skipped and reported in `issues`.
+function readSubmissions(values: string[][], raw: RawColumns, columns: ColumnMapping, issues: RowIssue[], decimalComma: boolean): Submission[] {
+  const { header, data, firstRow } = splitHeader(values, raw.presenter);
+  const find = columnFinder(header);
+  const presenterIdx = find(raw.presenter, "presenter", true);
+  const judgeIdx = raw.judge ? find(raw.judge, "judge", true) : undefined;
+  const timeIdx = raw.timestamp ? find(raw.timestamp, "timestamp", true) : undefined;
+  const criteriaIdx = raw.criteria.map(c => find(c, "criterion", true));
+  const teamIdx = find(columns.team, "team", false);
+  const categoryIdx = find(columns.category, "category", false);
+
+  return data
+    .map((r, order) => ({
+      presenter: cell(r, presenterIdx),
+      judge: cell(r, judgeIdx),
+      team: cell(r, teamIdx),
+      category: cell(r, categoryIdx),
+      total: criteriaIdx.reduce((acc, idx) => acc + toNumber(cell(r, idx), decimalComma), 0),
+      time: Date.parse(cell(r, timeIdx)) || 0,
+      order,
+    }))
+    .filter(s => {
+      if (!s.presenter) return false;
+      if (Number.isNaN(s.total)) {
+        issues.push({
+          row: firstRow + s.order,
+          name: s.presenter,
+          problem: "non-numeric-score",
+          detail: `Submission${s.judge ? ` by ${s.judge}` : ""} has a blank or non-numeric criterion`,
+          action: "dropped",
+        });
+        return false;
+      }
+      return true;
+    });
+}
+
+// Keeps each judge's latest submission per presenter (by timestamp, then sheet order).
+function latestPerJudge(submissions: Submission[]) {
+  const latest = new Map<string, Submission>();
+  for (const s of submissions) {
+    if (!s.judge) { latest.set(`#${s.order}`, s); continue; }
+    const k = `${nameKey(s.presenter)}\u0000${nameKey(s.judge)}`;
+    const prev = latest.get(k);
+    if (!prev || s.time > prev.time || (s.time === prev.time && s.order > prev.order)) latest.set(k, s);
+  }
+  return [...latest.values()];
+}
+
+export function aggregateRaw(values: string[][], scoring: ScoringConfig, issues: RowIssue[] = [], decimalComma = false): ParticipantRow[] {
+  if (!values.length || !scoring.raw) return [];
+  const raw = scoring.raw;
+
+  const byPresenter = new Map<string, { name: string; team: string; category: string; scores: number[] }>();
+  for (const s of latestPerJudge(readSubmissions(values, raw, scoring.columns, issues, decimalComma))) {
+    const k = nameKey(s.presenter);
+    const entry = byPresenter.get(k) ?? { name: s.presenter, team: "", category: "", scores: [] };
+    entry.scores.push(s.total);
+    entry.team ||= s.team;
+    entry.category ||= s.category;
+    byPresenter.set(k, entry);
+  }
+
+  return [...byPresenter.values()].map(({ name, team, category, scores }) => {
+    let used = [...scores].sort((a, b) => a - b);
+    if (raw.dropExtremes && used.length >= 3) used = used.slice(1, -1);
+
+    const sum = used.reduce((a, b) => a + b, 0);
+    const avg = used.length ? sum / used.length : 0;
+    const med = used.length ? median(used) : 0;
+    const scoreNum = scoring.score.metric === "avg" ? avg : scoring.score.metric === "median" ? med : sum;
+
+    return {
+      name,
+      sum: formatScore(sum),
+      count: String(used.length),
+      avg: formatScore(avg),
+      median: formatScore(med),
+      team: team || undefined,
+      category: category || undefined,
+      score: formatScore(scoreNum),
+      scoreNum,
+      extra: [],
+    };
+  });
+}
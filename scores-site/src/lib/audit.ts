@@ -0,0 +1,24 @@
+import type { BoardRef } from "./events";
+import { appendJsonLine, dataPath, readJsonLines } from "./store";
+
+// ---- Audit log ----
+// Append-only JSON lines; every operator change is recorded before it is applied.
+export type AuditEntry = {
+  at: string;
+  actor: string;
+  board: BoardRef;
+  action: string;
+  name?: string;
+  value?: number;
+};
+
+const AUDIT_FILE = dataPath("audit.log");
+
+export function recordAudit(entry: Omit<AuditEntry, "at">) {
+  return appendJsonLine(AUDIT_FILE, { at: new Date().toISOString(), ...entry });
+}
+
+export async function readAudit(limit = 100): Promise<AuditEntry[]> {
+  const entries = await readJsonLines<AuditEntry>(AUDIT_FILE);
+  return entries.slice(-limit).reverse();
+}
@@ -0,0 +1,36 @@
+// ---- Admin session ----
+// Runs in middleware (edge runtime) as well as route handlers, so Web Crypto only.
+export const ADMIN_COOKIE = "scoreboard_admin";
+export const SESSION_MAX_AGE_S = 60 * 60 * 12;
+
+const encoder = new TextEncoder();
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+
+async function sign(password: string, payload: string) {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const sig = await crypto.subtle.sign("HMAC", key, encoder.encode(`scoreboard-admin-session:${payload}`));
+  return hex(new Uint8Array(sig));
+}
+
+// "<issued-at ms>.<random nonce>.<HMAC of both>", so every sign-in gets its own token
+// and a copied cookie stops working once it is older than SESSION_MAX_AGE_S.
+export async function sessionToken(password: string, issuedAt = Date.now()) {
+  const payload = `${issuedAt}.${hex(crypto.getRandomValues(new Uint8Array(16)))}`;
+  return `${payload}.${await sign(password, payload)}`;
+}
+
+export function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function isAdminSession(cookie: string | undefined) {
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password || !cookie) return false;
+  const [issuedAt, nonce, sig] = cookie.split(".");
+  const age = Date.now() - Number(issuedAt);
+  if (!nonce || !sig || !(age >= 0 && age < SESSION_MAX_AGE_S * 1000)) return false;
+  return safeEqual(sig, await sign(password, `${issuedAt}.${nonce}`));
+}
@@ -0,0 +1,37 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { mapRows } from "./columns";
+import { getScoringConfig } from "./config";
+import { withRanks } from "./scoring";
+import { csvTable } from "./sources/csv";
+import { validateRows } from "./validate";
+
+const fixture = (name: string) => readFileSync(new URL(`./scoring/__fixtures__/${name}`, import.meta.url), "utf8");
+
+// A CSV source's whole path: parse, map the columns, validate and rank.
+function board(text: string) {
+  const scoring = getScoringConfig({ score: { metric: "sum" } });
+  const { rows, decimalComma } = csvTable(text);
+  const { rows: valid, issues } = validateRows(mapRows(rows, scoring, decimalComma));
+  return { rows: withRanks(valid, scoring.ranking), issues };
+}
+
+describe("mapRows", () => {
+  it("finds the header below a title line", () => {
+    const { rows, issues } = board(fixture("title-line.csv"));
+    expect(issues).toEqual([]);
+    expect(rows.map(r => [r.rank, r.name, r.scoreNum, r.avg, r.sourceRow])).toEqual([
+      [1, "Alice", 84.5, "42,25", 3],
+      [2, "Bob", 80, "40", 4],
+    ]);
+  });
+
+  it("reads the first row as the header when it names the columns", () => {
+    const { rows } = board(fixture("bom.csv"));
+    expect(rows.map(r => [r.name, r.sourceRow])).toEqual([["Alice", 2], ["Bob", 3]]);
+  });
+
+  it("still names a missing column", () => {
+    expect(() => board("Title\nWho,Sum\nAlice,1\n")).toThrow(/Column "Name" \(name\) not found/);
+  });
+});
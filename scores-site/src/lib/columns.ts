@@ -0,0 +1,109 @@
+import type { ScoringConfig } from "./config";
+import type { ScorePart, ParticipantRow } from "./scoring";
+
+// ---- Header mapping ----
+const norm = (s: string) => String(s ?? "").trim().toLowerCase();
+
+export const formatScore = (n: number) => String(Number(n.toFixed(2)));
+
+export const cell = (r: string[], idx: number | undefined) => (idx === undefined ? "" : String(r[idx] ?? "").trim());
+
+// Strict number parsing: only plain decimals count, so blanks, "abc", "12 pts", "0x10", "1e3" and
+// "Infinity" are NaN for validation to catch. "84,5" counts in sheets that write decimal commas.
+const DECIMAL = /^-?\d+(?:[.,]\d+)?$/;
+
+export function toNumber(s: string, decimalComma = false) {
+  if (!DECIMAL.test(s) || (s.includes(",") && !decimalComma)) return NaN;
+  return Number(s.replace(",", "."));
+}
+
+// Sheets often carry a title or notes above the header, so the header is the first of the
+// top rows that names `column`; row 0 when none does, so a missing column is still reported.
+const HEADER_SEARCH_ROWS = 10;
+
+export function splitHeader(values: string[][], column: string) {
+  const found = values.slice(0, HEADER_SEARCH_ROWS).findIndex(r => r.some(h => norm(h) === norm(column)));
+  const at = Math.max(found, 0);
+  // `firstRow` is the 1-based sheet row of the first data row, for diagnostics.
+  return { header: values[at] ?? [], data: values.slice(at + 1), firstRow: at + 2 };
+}
+
+// Looks up header positions; required columns throw an error naming the column.
+export function columnFinder(header: string[]) {
+  const headerIdx: Record<string, number> = {};
+  header.forEach((h, i) => (headerIdx[norm(h)] = i));
+
+  function find(column: string, field: string, required: true): number;
+  function find(column: string, field: string, required: boolean): number | undefined;
+  function find(column: string, field: string, required: boolean) {
+    const idx = headerIdx[norm(column)];
+    if (idx === undefined && required) {
+      const found = header.map(h => `"${String(h).trim()}"`).join(", ") || "none";
+      throw new Error(`Column "${column}" (${field}) not found in sheet headers. Found: ${found}`);
+    }
+    return idx;
+  }
+  return find;
+}
+
+export function mapRows(values: string[][], scoring: ScoringConfig, decimalComma = false): ParticipantRow[] {
+  if (!values.length) return [];
+  const { columns, score, display } = scoring;
+  const { header, data, firstRow } = splitHeader(values, columns.name);
+  const find = columnFinder(header);
+
+  const nameIdx = find(columns.name, "name", true);
+  const sumIdx = find(columns.sum, "sum", score.metric === "sum");
+  const countIdx = find(columns.count, "count", false);
+  const avgIdx = find(columns.avg, "avg", score.metric === "avg");
+  const medianIdx = find(columns.median, "median", score.metric === "median");
+  const teamIdx = find(columns.team, "team", false);
+  const categoryIdx = find(columns.category, "category", false);
+  const judgesIdx = find(columns.judges, "judges", score.metric === "panel");
+  const audienceIdx = find(columns.audience, "audience", score.metric === "panel");
+  const weights = score.metric === "weighted"
+    ? Object.entries(score.weights).map(([column, weight]) => ({ idx: find(column, "weighted score", true), weight }))
+    : [];
+  const extras = display.map(d => ({ label: d.label ?? d.header, idx: find(d.header, "display", true) }));
+
+  return data.map((r, i) => {
+    const sum = cell(r, sumIdx);
+    const avg = cell(r, avgIdx);
+    const median = cell(r, medianIdx);
+    let scoreText: string;
+    let scoreNum: number;
+    let breakdown: ScorePart[] | undefined;
+    if (score.metric === "panel") {
+      // A blank side (e.g. no audience votes yet) is left out and the other side counts fully.
+      const parts = [
+        { label: "Judges", value: cell(r, judgesIdx), weight: score.judges },
+        { label: "Audience", value: cell(r, audienceIdx), weight: score.audience },
+      ].filter(p => p.weight > 0 && p.value !== "");
+      const total = parts.reduce((acc, p) => acc + p.weight, 0);
+      scoreNum = total ? parts.reduce((acc, p) => acc + p.weight * toNumber(p.value, decimalComma), 0) / total : NaN;
+      scoreText = Number.isNaN(scoreNum) ? parts.map(p => p.value).join(" / ") : formatScore(scoreNum);
+      breakdown = parts.map(p => ({ label: p.label, value: p.value, share: p.weight / total }));
+    } else if (score.metric === "weighted") {
+      scoreNum = weights.reduce((acc, w) => acc + w.weight * toNumber(cell(r, w.idx), decimalComma), 0);
+      scoreText = formatScore(scoreNum);
+    } else {
+      scoreText = score.metric === "avg" ? avg : score.metric === "median" ? median : sum;
+      scoreNum = toNumber(scoreText, decimalComma);
+    }
+
+    return {
+      name: cell(r, nameIdx),
+      sum,
+      count: cell(r, countIdx),
+      avg,
+      median,
+      team: cell(r, teamIdx) || undefined,
+      category: cell(r, categoryIdx) || undefined,
+      score: scoreText,
+      scoreNum,
+      extra: extras.map(e => ({ label: e.label, value: cell(r, e.idx) })),
+      breakdown,
+      sourceRow: firstRow + i,
+    };
+  });
+}
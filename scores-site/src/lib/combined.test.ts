@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { combineRounds } from "./combined";
+import type { RankedParticipant, Snapshot } from "./scoring";
+
+const ranked = (name: string, scoreNum: number, fields: Partial<RankedParticipant> = {}): RankedParticipant => ({
+  name, rank: 1, scoreNum, score: String(scoreNum), sum: "", count: "", avg: "", median: "", extra: [], ...fields,
+});
+
+const snapshot = (rows: RankedParticipant[]): Snapshot => ({ rows, updatedAt: "2026-01-01T00:00:00.000Z" });
+
+const ROUNDS = [{ title: "Heats", weight: 1 }, { title: "Final", weight: 2 }];
+
+describe("combineRounds", () => {
+  it("adds up each round's weighted score", () => {
+    const rows = combineRounds(ROUNDS, [snapshot([ranked("Asha", 10), ranked("Ben", 8)]), snapshot([ranked("Ben", 9)])]);
+    expect(rows.map(r => [r.name, r.scoreNum])).toEqual([["Asha", 10], ["Ben", 26]]);
+    expect(rows[0].extra).toEqual([{ label: "Heats", value: "10" }, { label: "Final", value: "" }]);
+  });
+
+  it("merges names that differ only in case or spacing, keeping the first spelling", () => {
+    const rows = combineRounds(ROUNDS, [
+      snapshot([ranked("Asha", 10, { sum: "20", count: "2" })]),
+      snapshot([ranked("asha ", 7, { sum: "14", count: "2" })]),
+    ]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ name: "Asha", scoreNum: 24, sum: "34", count: "4", avg: "8.5" });
+    expect(rows[0].extra.map(e => e.value)).toEqual(["10", "7"]);
+  });
+
+  it("takes the team and category from the first round that has them", () => {
+    const rows = combineRounds(ROUNDS, [snapshot([ranked("Asha", 1)]), snapshot([ranked("ASHA", 1, { team: "Red", category: "Solo" })])]);
+    expect(rows[0]).toMatchObject({ team: "Red", category: "Solo" });
+  });
+});
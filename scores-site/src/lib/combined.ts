@@ -0,0 +1,40 @@
+import { formatScore } from "./columns";
+import { nameKey } from "./participants";
+import type { ParticipantRow, Snapshot } from "./scoring";
+
+// ---- Overall standings ----
+// Weighted sum of each round's score, with per-round scores as extras. Rounds are matched by
+// name key, so "Asha" and "asha " are one person; the first round's spelling is shown.
+export function combineRounds(rounds: { title: string; weight: number }[], payloads: Snapshot[]): ParticipantRow[] {
+  const byName = new Map<string, {
+    name: string; team?: string; category?: string; sum: number; count: number; scoreNum: number; perRound: string[];
+  }>();
+
+  payloads.forEach((payload, i) => {
+    for (const row of payload.rows) {
+      const k = nameKey(row.name);
+      const entry = byName.get(k)
+        ?? { name: row.name, sum: 0, count: 0, scoreNum: 0, perRound: rounds.map(() => "") };
+      entry.sum += parseFloat(row.sum) || 0;
+      entry.count += parseInt(row.count, 10) || 0;
+      entry.scoreNum += rounds[i].weight * row.scoreNum;
+      entry.perRound[i] = row.score;
+      entry.team ||= row.team;
+      entry.category ||= row.category;
+      byName.set(k, entry);
+    }
+  });
+
+  return [...byName.values()].map(e => ({
+    name: e.name,
+    sum: formatScore(e.sum),
+    count: String(e.count),
+    avg: e.count ? formatScore(e.sum / e.count) : "",
+    median: "",
+    team: e.team,
+    category: e.category,
+    score: formatScore(e.scoreNum),
+    scoreNum: e.scoreNum,
+    extra: rounds.map((r, i) => ({ label: r.title, value: e.perRound[i] })),
+  }));
+}
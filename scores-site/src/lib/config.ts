@@ -0,0 +1,203 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { TIE_BREAKER_NAMES, type EmbargoMode, type RankingConfig } from "./scoring";
+import type { SourceConfig } from "./sources/types";
+
+// ---- Server-side config ----
+// Read from the environment so the Sheets API key never reaches the client bundle.
+const DEFAULT_CSV_URL =
+  "https://docs.google.com/spreadsheets/d/e/2PACX-1vTotvCpeAiaoYBIhx4WoO86wUQJ_ITeeTDuUPBEVs2V8PNlCLP7C1qvloOY3v15owLXFdznb1AioC95/pub?gid=680379986&single=true&output=csv";
+
+// ---- Column mapping & score formula ----
+export type ColumnMapping = {
+  name: string;
+  sum: string;
+  count: string;
+  avg: string;
+  median: string;
+  team: string;       // optional grouping columns
+  category: string;
+  judges: string;     // judge and audience averages, blended by the "panel" metric
+  audience: string;
+};
+
+export type ScoreMetric =
+  | { metric: "sum" }
+  | { metric: "avg" }
+  | { metric: "median" }
+  | { metric: "weighted"; weights: Record<string, number> }   // header → weight
+  | { metric: "panel"; judges: number; audience: number };     // blend of the judges and audience columns
+
+// Raw form responses: one row per judge submission, aggregated by the app.
+export type RawColumns = {
+  timestamp?: string;
+  judge?: string;          // repeat submissions by the same judge keep only the latest
+  presenter: string;
+  criteria: string[];      // summed into one score per submission
+  dropExtremes?: boolean;  // ignore the highest and lowest score per presenter
+};
+
+export type DisplayColumn = { header: string; label?: string };
+
+// How a team's or category's score is built from its members' scores.
+export type GroupScoring = {
+  method: "sum" | "mean" | "top";
+  top: number;   // members counted by "top"
+};
+
+export type ScoringConfig = {
+  mode: "aggregated" | "raw";
+  raw?: RawColumns;
+  columns: ColumnMapping;
+  score: ScoreMetric;
+  display: DisplayColumn[];
+  ranking: RankingConfig;
+  groups: GroupScoring;
+};
+
+const DEFAULT_SCORING: ScoringConfig = {
+  mode: "aggregated",
+  columns: {
+    name: "Name", sum: "Sum", count: "Count", avg: "Avg", median: "Median",
+    team: "Team", category: "Category", judges: "Judges", audience: "Audience",
+  },
+  score: { metric: "sum" },
+  display: [],
+  ranking: { style: "competition", precision: 2, tieBreakers: [] },
+  groups: { method: "sum", top: 3 },
+};
+
+// Reads an optional JSON config file from the project root (path overridable
+// by env var). Read on each call so files can be fixed mid-event without a redeploy.
+export function readJsonConfig<T>(envVar: string, defaultFile: string): T | undefined {
+  const file = path.resolve(process.cwd(), process.env[envVar] || defaultFile);
+  if (!existsSync(file)) return undefined;
+  try {
+    return JSON.parse(readFileSync(file, "utf8")) as T;
+  } catch (e: any) {
+    throw new Error(`Invalid JSON in ${path.basename(file)}: ${e.message}`);
+  }
+}
+
+export type ScoringOverrides = Partial<Omit<ScoringConfig, "columns" | "ranking" | "groups">> & {
+  columns?: Partial<ColumnMapping>;
+  ranking?: Partial<RankingConfig>;
+  groups?: Partial<GroupScoring>;
+};
+
+// scoreboard.config.json (or SCOREBOARD_CONFIG), then any event/round overrides on top.
+export function getScoringConfig(...overrides: (ScoringOverrides | undefined)[]): ScoringConfig {
+  const layers = [readJsonConfig<ScoringOverrides>("SCOREBOARD_CONFIG", "scoreboard.config.json"), ...overrides];
+  const merged = layers.reduce<ScoringConfig>(
+    (acc, layer) => (layer
+      ? {
+        ...acc,
+        ...layer,
+        columns: { ...acc.columns, ...layer.columns },
+        ranking: { ...acc.ranking, ...layer.ranking },
+        groups: { ...acc.groups, ...layer.groups },
+      }
+      : acc),
+    DEFAULT_SCORING,
+  );
+
+  const { mode, raw, score, ranking, groups } = merged;
+  if (!["sum", "avg", "median", "weighted", "panel"].includes(score.metric)) {
+    throw new Error(`Unknown score metric "${score.metric}"`);
+  }
+  if (score.metric === "panel" && !(score.judges >= 0 && score.audience >= 0 && score.judges + score.audience > 0)) {
+    throw new Error(`The "panel" metric needs non-negative "judges" and "audience" weights, e.g. 0.7 and 0.3`);
+  }
+  if (!["competition", "dense", "ordinal"].includes(ranking.style)) {
+    throw new Error(`Unknown ranking style "${ranking.style}" (expected competition, dense or ordinal)`);
+  }
+  const badBreaker = ranking.tieBreakers.find(t => !TIE_BREAKER_NAMES.includes(t));
+  if (badBreaker) {
+    throw new Error(`Unknown tie-breaker "${badBreaker}" (expected ${TIE_BREAKER_NAMES.join(", ")})`);
+  }
+  if (!["sum", "mean", "top"].includes(groups.method)) {
+    throw new Error(`Unknown group method "${groups.method}" (expected sum, mean or top)`);
+  }
+  if (mode === "raw") {
+    if (!raw?.presenter || !raw.criteria?.length) {
+      throw new Error("Raw mode needs raw.presenter and raw.criteria");
+    }
+    if (score.metric === "weighted" || score.metric === "panel") {
+      throw new Error(`Raw mode ranks by sum, avg or median, not "${score.metric}"`);
+    }
+  }
+  return merged;
+}
+
+export const CACHE_TTL_MS = Number(process.env.SCORES_CACHE_TTL_MS) || 10_000;
+
+// Failed source fetches are retried with exponential backoff: 500ms, 1s, 2s, …
+export const FETCH_RETRIES = Math.max(0, Number(process.env.SCORES_FETCH_RETRIES ?? 2) || 0);
+export const RETRY_BASE_MS = Number(process.env.SCORES_RETRY_BASE_MS) || 500;
+
+// Origins allowed to read the public API from a browser; "*" (the default) allows any.
+export const PUBLIC_API_ORIGINS = (process.env.PUBLIC_API_ORIGINS ?? "*").split(",").map(o => o.trim()).filter(Boolean);
+
+// Pick a source with SCORES_SOURCE, or let it be inferred from which variables are set.
+export function getSourceConfig(): SourceConfig {
+  const env = process.env;
+  const kind = env.SCORES_SOURCE
+    ?? (env.SCORES_CSV_URL ? "csv"
+      : env.SCORES_FILE ? "file"
+      : env.SCORES_JSON_URL ? "json"
+      : env.GSHEETS_API_KEY ? "sheets"
+      : "csv");
+
+  switch (kind) {
+    case "csv":
+      return { kind, url: env.SCORES_CSV_URL || DEFAULT_CSV_URL };
+    case "sheets":
+      return {
+        kind,
+        apiKey: required("GSHEETS_API_KEY"),
+        sheetId: required("GSHEETS_SHEET_ID"),
+        range: required("GSHEETS_RANGE"),
+      };
+    case "file":
+      return { kind, path: required("SCORES_FILE") };
+    case "json":
+      return {
+        kind,
+        url: required("SCORES_JSON_URL"),
+        headers: env.SCORES_JSON_AUTH ? { Authorization: env.SCORES_JSON_AUTH } : undefined,
+      };
+    case "votes":
+      return { kind, poll: required("SCORES_POLL") };
+    default:
+      throw new Error(`Unknown SCORES_SOURCE "${kind}" (expected csv, sheets, file, json or votes)`);
+  }
+}
+
+function required(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+}
+
+// ---- Schedule ----
+// Times are ISO 8601 with an offset, e.g. "2026-03-14T09:00:00+05:30". Everything is optional:
+// a board without a schedule is always live.
+export type ScheduleConfig = {
+  startsAt?: string;
+  endsAt?: string;
+  embargo?: EmbargoMode;    // hold results back until an operator publishes them
+  lineup?: string[];        // presenters shown before the start (default: names from the source)
+};
+
+// The default board's schedule.
+export function getDefaultSchedule(): ScheduleConfig {
+  const env = process.env;
+  return {
+    startsAt: env.SCHEDULE_STARTS_AT || undefined,
+    endsAt: env.SCHEDULE_ENDS_AT || undefined,
+    embargo: (env.SCHEDULE_EMBARGO || undefined) as EmbargoMode | undefined,
+  };
+}
+
+// How often the stream endpoint re-checks the source while anyone is subscribed.
+export const STREAM_POLL_MS = Number(process.env.SCORES_STREAM_POLL_MS) || CACHE_TTL_MS;
@@ -0,0 +1,71 @@
+import type { BoardRef } from "./events";
+import { isLocale, type Locale } from "./i18n";
+import type { RankedParticipant } from "./scoring";
+import { isThemePreset, type ThemePreset } from "./theme";
+
+// ---- Embeddable widget ----
+// /embed?event=<id>&round=<id>&top=5&view=list|podium&theme=dark&transparent=1&header=0&lang=<locale>
+export const EMBED_VIEWS = ["list", "podium"] as const;
+export type EmbedView = (typeof EMBED_VIEWS)[number];
+
+export type EmbedOptions = {
+  top: number;
+  view: EmbedView;
+  theme?: ThemePreset;       // the board's own theme when unset
+  transparent: boolean;      // let the host page show through
+  header: boolean;           // title and logo row
+  locale?: Locale;
+};
+
+const DEFAULT_TOP = 5;
+const MAX_TOP = 50;
+const THEME_ALIASES: Record<string, ThemePreset> = { light: "default", dark: "midnight" };
+
+type Query = Record<string, string | string[] | undefined>;
+const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
+
+export function embedOptions(query: Query): EmbedOptions {
+  const top = Math.floor(Number(first(query.top)));
+  const view = first(query.view);
+  const theme = first(query.theme) ?? "";
+  const lang = first(query.lang);
+  return {
+    top: top > 0 ? Math.min(top, MAX_TOP) : DEFAULT_TOP,
+    view: EMBED_VIEWS.includes(view as EmbedView) ? (view as EmbedView) : "list",
+    theme: THEME_ALIASES[theme] ?? (isThemePreset(theme) ? theme : undefined),
+    transparent: ["1", "true"].includes(first(query.transparent) ?? ""),
+    header: first(query.header) !== "0",
+    locale: isLocale(lang) ? lang : undefined,
+  };
+}
+
+// Everyone ranked within the top N, ties included; the podium view always shows ranks 1–3.
+export const embedRows = (rows: RankedParticipant[], options: EmbedOptions) =>
+  rows.filter(r => r.rank <= (options.view === "podium" ? 3 : options.top));
+
+export function embedPath(board: BoardRef, query: Record<string, string> = {}) {
+  const params = new URLSearchParams({
+    ...(board.eventId ? { event: board.eventId } : {}),
+    ...(board.round ? { round: board.round } : {}),
+    ...query,
+  });
+  return `/embed${params.size ? `?${params}` : ""}`;
+}
+
+// Rough iframe size for oEmbed consumers; the widget itself scrolls if it runs long.
+export function embedSize(options: EmbedOptions, maxWidth?: number, maxHeight?: number) {
+  const height = (options.header ? 72 : 16) + (options.view === "podium" ? 260 : options.top * 56) + 40;
+  return {
+    width: Math.min(480, maxWidth || Infinity),
+    height: Math.min(height, maxHeight || Infinity),
+  };
+}
+
+// Maps a board, event, round or embed URL on this site to its board, for oEmbed.
+export function boardFromPath(pathname: string, query: URLSearchParams): BoardRef | null {
+  if (pathname === "/scoreboard") return {};
+  if (pathname === "/embed") return { eventId: query.get("event") ?? undefined, round: query.get("round") ?? undefined };
+  const match = pathname.match(/^\/events\/([^/]+)(?:\/rounds\/([^/]+))?\/?$/);
+  if (!match) return null;
+  return { eventId: decodeURIComponent(match[1]), round: match[2] ? decodeURIComponent(match[2]) : undefined };
+}
@@ -0,0 +1,160 @@
+import {
+  getDefaultSchedule, getScoringConfig, getSourceConfig, readJsonConfig,
+  type ScheduleConfig, type ScoringConfig, type ScoringOverrides,
+} from "./config";
+import type { SourceConfig } from "./sources";
+import type { Locale } from "./i18n";
+import { resolveTheme, type ThemeInput } from "./theme";
+
+// ---- Events config ----
+export type RoundConfig = {
+  id: string;
+  title?: string;
+  weight?: number;               // weight in the overall standings (default 1)
+  source?: SourceConfig;         // defaults to the event's source
+  scoring?: ScoringOverrides;
+  schedule?: ScheduleConfig;     // merged over the event's schedule
+};
+
+export type EventConfig = {
+  id: string;
+  title: string;
+  logoSrc?: string;
+  brandColor?: string;           // overrides the theme's brand color
+  theme?: ThemeInput;            // preset name, or { preset, palette, fonts, … }
+  locale?: Locale;               // board language (default en)
+  source?: SourceConfig;
+  scoring?: ScoringOverrides;
+  schedule?: ScheduleConfig;     // start/end times and results embargo (see lib/lifecycle.ts)
+  rounds?: RoundConfig[];
+};
+
+export class NotFoundError extends Error {}
+
+// Loaded from events.config.json (or EVENTS_CONFIG).
+export function getEvents(): EventConfig[] {
+  return readJsonConfig<{ events?: EventConfig[] }>("EVENTS_CONFIG", "events.config.json")?.events ?? [];
+}
+
+export function getEvent(eventId: string) {
+  return getEvents().find(e => e.id === eventId);
+}
+
+export function getRound(event: EventConfig, roundId: string) {
+  return event.rounds?.find(r => r.id === roundId);
+}
+
+export const roundTitle = (round: RoundConfig) => round.title ?? `Round ${round.id}`;
+
+// ---- Boards ----
+// A board is what one scoreboard shows: the default env-configured board, a
+// single event or round, or an event's combined standings across rounds.
+export type BoardRef = { eventId?: string; round?: string };
+
+export type SingleBoard = { kind: "single"; source: SourceConfig; scoring: ScoringConfig };
+export type CombinedBoard = {
+  kind: "combined";
+  scoring: ScoringConfig;
+  rounds: { ref: BoardRef; title: string; weight: number }[];
+};
+
+export const boardKey = (board: BoardRef) => `${board.eventId ?? ""}/${board.round ?? ""}`;
+
+export function resolveBoard(board: BoardRef): SingleBoard | CombinedBoard {
+  if (!board.eventId) return { kind: "single", source: getSourceConfig(), scoring: getScoringConfig() };
+
+  const event = getEvent(board.eventId);
+  if (!event) throw new NotFoundError(`Unknown event "${board.eventId}"`);
+
+  if (board.round) {
+    const round = getRound(event, board.round);
+    if (!round) throw new NotFoundError(`Unknown round "${board.round}" in event "${event.id}"`);
+    const source = round.source ?? event.source;
+    if (!source) throw new Error(`No source configured for round "${round.id}" of "${event.id}"`);
+    return { kind: "single", source, scoring: getScoringConfig(event.scoring, round.scoring) };
+  }
+
+  if (event.rounds?.length) {
+    return {
+      kind: "combined",
+      scoring: getScoringConfig(event.scoring),
+      rounds: event.rounds.map(r => ({
+        ref: { eventId: event.id, round: r.id },
+        title: roundTitle(r),
+        weight: r.weight ?? 1,
+      })),
+    };
+  }
+
+  if (!event.source) throw new Error(`No source configured for event "${event.id}"`);
+  return { kind: "single", source: event.source, scoring: getScoringConfig(event.scoring) };
+}
+
+export function boardEndpoints(board: BoardRef) {
+  if (!board.eventId) {
+    return { endpoint: "/api/scores", streamEndpoint: "/api/scores/stream", historyEndpoint: "/api/scores/history", boardQuery: "" };
+  }
+  const base = `/api/events/${encodeURIComponent(board.eventId)}/scores`;
+  const query = board.round ? `?round=${encodeURIComponent(board.round)}` : "";
+  return {
+    endpoint: `${base}${query}`,
+    streamEndpoint: `${base}/stream${query}`,
+    historyEndpoint: `${base}/history${query}`,
+    // Identifies the board on pages outside it, e.g. /participants/<name>?event=…&round=…
+    boardQuery: `?event=${encodeURIComponent(board.eventId)}${board.round ? `&round=${encodeURIComponent(board.round)}` : ""}`,
+  };
+}
+
+// ---- Branding ----
+// The default board's look; events set their own in events.config.json.
+export type Branding = { title: string; logoSrc?: string; brandColor: string; theme?: ThemeInput; locale?: Locale };
+
+// An explicit brandColor overrides the theme's brand; leave it out to use the theme's own.
+export const DEFAULT_BRANDING: Omit<Branding, "brandColor"> & { brandColor?: string } = {
+  title: "Live Scores",
+  logoSrc: "/Logo.png",           // put your logo in /public
+  theme: "default",               // default | midnight | minimal | festival, or an object (see lib/theme.ts)
+  locale: "en",                   // en | ar (see lib/i18n.ts)
+};
+
+const brandOf = (b: { brandColor?: string; theme?: ThemeInput }) => b.brandColor ?? resolveTheme(b.theme).palette.brand;
+
+export function boardBranding(board: BoardRef): Branding {
+  const event = board.eventId ? getEvent(board.eventId) : undefined;
+  if (!event) return { ...DEFAULT_BRANDING, brandColor: brandOf(DEFAULT_BRANDING) };
+  const round = board.round ? getRound(event, board.round) : undefined;
+  return {
+    title: round ? `${event.title} · ${roundTitle(round)}` : event.rounds?.length ? `${event.title} · Overall` : event.title,
+    logoSrc: event.logoSrc,
+    brandColor: brandOf(event),
+    theme: event.theme,
+    locale: event.locale,
+  };
+}
+
+export function boardPath(board: BoardRef) {
+  if (!board.eventId) return "/scoreboard";
+  const base = `/events/${encodeURIComponent(board.eventId)}`;
+  return board.round ? `${base}/rounds/${encodeURIComponent(board.round)}` : base;
+}
+
+export function boardLinks(event: EventConfig, activeRound?: string) {
+  if (!event.rounds?.length) return [];
+  const base = `/events/${encodeURIComponent(event.id)}`;
+  return [
+    { href: base, label: "Overall", active: !activeRound },
+    ...event.rounds.map(r => ({
+      href: `${base}/rounds/${encodeURIComponent(r.id)}`,
+      label: roundTitle(r),
+      active: r.id === activeRound,
+    })),
+  ];
+}
+
+// ---- Schedule ----
+export function boardSchedule(board: BoardRef): ScheduleConfig {
+  if (!board.eventId) return getDefaultSchedule();
+  const event = getEvent(board.eventId);
+  const round = event && board.round ? getRound(event, board.round) : undefined;
+  return { ...event?.schedule, ...round?.schedule };
+}
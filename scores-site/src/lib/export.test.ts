@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { toCSV } from "./export";
+
+describe("toCSV", () => {
+  it("quotes fields holding commas, quotes or line breaks", () => {
+    expect(toCSV([{ name: 'Smith, "Jo"', note: "a\nb" }])).toBe('name,note\r\n"Smith, ""Jo""","a\nb"\r\n');
+  });
+
+  it.each(["=HYPERLINK(\"x\")", "+1+2", "-cmd", "@SUM(A1)"])("keeps a spreadsheet from running %s", text => {
+    expect(toCSV([{ name: text }]).split("\r\n")[1]).toMatch(/^"?'/);
+  });
+
+  it("leaves negative numbers as numbers", () => {
+    expect(toCSV([{ score: "-3.5", rank: 1 }])).toBe("score,rank\r\n-3.5,1\r\n");
+  });
+});
@@ -0,0 +1,55 @@
+import type { BoardRef } from "./events";
+import type { RankedParticipant } from "./scoring";
+
+// ---- Standings export ----
+export const EXPORT_FORMATS = ["csv", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type StandingsRecord = Record<string, string | number>;
+
+// One flat record per ranked row; display extras become their own columns.
+export function standingsRecords(rows: RankedParticipant[]): StandingsRecord[] {
+  return rows.map(r => {
+    const record: StandingsRecord = {
+      rank: r.rank,
+      name: r.profile?.name ?? r.name,
+      score: r.score,
+      sum: r.sum,
+      count: r.count,
+      avg: r.avg,
+      median: r.median,
+      team: r.team ?? "",
+      category: r.category ?? "",
+    };
+    for (const x of r.extra) record[x.label] = x.value;
+    return record;
+  });
+}
+
+// Spreadsheets run a cell starting with = + - or @ as a formula, so text like that gets a
+// leading apostrophe. Negative numbers are left alone.
+const FORMULA_START = /^[=+\-@]/;
+const NUMBER = /^-?\d+(?:\.\d+)?$/;
+
+const csvField = (v: string | number) => {
+  let s = String(v);
+  if (FORMULA_START.test(s) && !NUMBER.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function toCSV(records: StandingsRecord[]) {
+  const header = [...new Set(records.flatMap(r => Object.keys(r)))];
+  const lines = [header, ...records.map(r => header.map(k => r[k] ?? ""))];
+  return lines.map(line => line.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function exportFilename(board: BoardRef, format: ExportFormat) {
+  const parts = board.eventId ? [board.eventId, board.round ? `round-${board.round}` : "overall"] : ["standings"];
+  return `${parts.join("-").replace(/[^\w.-]+/g, "_")}.${format}`;
+}
+
+export function exportUrl(board: BoardRef, format: ExportFormat) {
+  const base = board.eventId ? `/api/events/${encodeURIComponent(board.eventId)}/scores/export` : "/api/scores/export";
+  const query = new URLSearchParams({ ...(board.round ? { round: board.round } : {}), format });
+  return `${base}?${query}`;
+}
@@ -0,0 +1,45 @@
+import { formatScore } from "./columns";
+import type { ScoringConfig } from "./config";
+import { withRanks, type GroupKind, type GroupStanding, type RankedParticipant, type Snapshot } from "./scoring";
+
+// ---- Team / category standings ----
+function groupScore(scores: number[], scoring: ScoringConfig) {
+  const { method, top } = scoring.groups;
+  if (method === "mean") return scores.reduce((a, b) => a + b, 0) / scores.length;
+  const counted = method === "top" ? [...scores].sort((a, b) => b - a).slice(0, top) : scores;
+  return counted.reduce((a, b) => a + b, 0);
+}
+
+function standings(rows: RankedParticipant[], kind: GroupKind, scoring: ScoringConfig): GroupStanding[] {
+  const byGroup = new Map<string, RankedParticipant[]>();
+  for (const row of rows) {
+    const group = row[kind];
+    if (!group) continue;
+    byGroup.set(group, [...(byGroup.get(group) ?? []), row]);
+  }
+
+  const groups = [...byGroup].map(([name, members]) => {
+    const scoreNum = groupScore(members.map(m => m.scoreNum), scoring);
+    const total = members.reduce((a, m) => a + m.scoreNum, 0);
+    return {
+      name,
+      sum: formatScore(total),
+      count: String(members.length),
+      avg: formatScore(total / members.length),
+      median: "",
+      score: formatScore(scoreNum),
+      scoreNum,
+      extra: [],
+      // Members are re-ranked among themselves with the board's ranking rules.
+      members: withRanks(members, scoring.ranking).map(m => ({ name: m.name, rank: m.rank })),
+    };
+  });
+  return withRanks(groups, scoring.ranking);
+}
+
+export function buildGroups(rows: RankedParticipant[], scoring: ScoringConfig): Snapshot["groups"] {
+  const team = standings(rows, "team", scoring);
+  const category = standings(rows, "category", scoring);
+  if (!team.length && !category.length) return undefined;
+  return { team, category };
+}
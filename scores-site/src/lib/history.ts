@@ -0,0 +1,74 @@
+import { boardKey, type BoardRef } from "./events";
+import { rowsSignature, type RankedParticipant, type Snapshot } from "./scoring";
+import { nameKey } from "./participants";
+import { appendJsonLine, dataPath, readJsonLines } from "./store";
+
+// ---- Score history ----
+// One JSON-lines file per board under DATA_DIR/history. A snapshot (the full payload,
+// timestamped by updatedAt) is appended only when the ranked rows change.
+// Resolves to the snapshot it replaced when it recorded a change, or null when nothing changed.
+
+const historyFile = (board: BoardRef) => dataPath(`history/${encodeURIComponent(boardKey(board))}.jsonl`);
+const lastSignature = new Map<string, string>();
+
+export async function recordSnapshot(board: BoardRef, payload: Snapshot): Promise<{ previous?: Snapshot } | null> {
+  const key = boardKey(board);
+  const signature = rowsSignature(payload.rows);
+  if (lastSignature.get(key) === signature) return null;
+
+  // Another route or process may already have recorded this change, so check the file itself.
+  const file = historyFile(board);
+  const history = await readJsonLines<Snapshot>(file);
+  const previous = history[history.length - 1];
+  lastSignature.set(key, signature);
+  if (previous && rowsSignature(previous.rows) === signature) return null;
+  await appendJsonLine(file, payload);
+  return { previous };
+}
+
+export async function readHistory(board: BoardRef, limit?: number): Promise<Snapshot[]> {
+  const history = await readJsonLines<Snapshot>(historyFile(board));
+  return limit ? history.slice(-limit) : history;
+}
+
+// ---- Per-participant timeline ----
+export type TimelinePoint = { at: string; rank: number; score: string; scoreNum: number };
+// passed = true when this participant moved ahead of `other`, false when `other` moved ahead.
+export type Overtake = { at: string; other: string; passed: boolean };
+
+export type Timeline = {
+  name: string;
+  row?: RankedParticipant;   // latest known row
+  points: TimelinePoint[];
+  overtakes: Overtake[];
+};
+
+export function participantTimeline(history: Snapshot[], name: string): Timeline {
+  const key = nameKey(name);
+  const matches = (r: RankedParticipant) => nameKey(r.name) === key || (!!r.profile && nameKey(r.profile.name) === key);
+  const timeline: Timeline = { name, points: [], overtakes: [] };
+  let prev: { snapshot: Snapshot; row: RankedParticipant } | undefined;
+
+  for (const snapshot of history) {
+    const row = snapshot.rows.find(matches);
+    if (!row) continue;
+
+    if (prev) {
+      const rankBefore = new Map(prev.snapshot.rows.map(r => [r.name, r.rank]));
+      for (const other of snapshot.rows) {
+        const was = rankBefore.get(other.name);
+        if (other.name === row.name || was === undefined) continue;
+        if (was < prev.row.rank && other.rank > row.rank) {
+          timeline.overtakes.push({ at: snapshot.updatedAt, other: other.name, passed: true });
+        } else if (was > prev.row.rank && other.rank < row.rank) {
+          timeline.overtakes.push({ at: snapshot.updatedAt, other: other.name, passed: false });
+        }
+      }
+    }
+
+    timeline.points.push({ at: snapshot.updatedAt, rank: row.rank, score: row.score, scoreNum: row.scoreNum });
+    timeline.row = row;
+    prev = { snapshot, row };
+  }
+  return timeline;
+}
@@ -0,0 +1,198 @@
+import { NextResponse } from "next/server";
+import { CACHE_TTL_MS, PUBLIC_API_ORIGINS } from "./config";
+import { boardFromPath, embedOptions, embedPath, embedSize } from "./embed";
+import { boardBranding, DEFAULT_BRANDING, NotFoundError, resolveBoard, type BoardRef } from "./events";
+import { EXPORT_FORMATS, exportFilename, standingsRecords, toCSV, type ExportFormat } from "./export";
+import { readHistory } from "./history";
+import { getBoardLifecycle, resultsHidden } from "./lifecycle";
+import { subscribe } from "./live";
+import { leaderboardETag, publicLeaderboard } from "./publicApi";
+import { getPublicScores } from "./scores";
+
+// ---- Route handler helpers shared by the default and per-event endpoints ----
+const HEARTBEAT_MS = 15_000;
+
+export function errorResponse(e: any) {
+  const status = e instanceof NotFoundError ? 404 : 502;
+  return NextResponse.json({ error: e.message || "Failed to load data" }, { status });
+}
+
+// The parsed JSON body when it is a plain object; null for malformed JSON, arrays and scalars.
+export async function readJsonObject(req: Request): Promise<Record<string, unknown> | null> {
+  const body: unknown = await req.json().catch(() => null);
+  return typeof body === "object" && body !== null && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+}
+
+export const badBodyResponse = () => NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+
+export async function scoresResponse(board: BoardRef) {
+  try {
+    const payload = await getPublicScores(board);
+    const maxAge = Math.max(1, Math.floor(CACHE_TTL_MS / 1000));
+    return NextResponse.json(payload, {
+      headers: { "Cache-Control": `public, s-maxage=${maxAge}, stale-while-revalidate=${maxAge}` },
+    });
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
+
+// ?format=csv|json (default csv); served as a download.
+export async function exportResponse(board: BoardRef, req: Request) {
+  const format = new URL(req.url).searchParams.get("format") ?? "csv";
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return NextResponse.json({ error: `Unknown export format "${format}". Use csv or json.` }, { status: 400 });
+  }
+  try {
+    const { rows, updatedAt } = await getPublicScores(board);
+    const records = standingsRecords(rows);
+    const headers = {
+      "Content-Disposition": `attachment; filename="${exportFilename(board, format as ExportFormat)}"`,
+      "Cache-Control": "no-store",
+    };
+    if (format === "json") return NextResponse.json({ updatedAt, rows: records }, { headers });
+    return new Response(toCSV(records), { headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" } });
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
+
+// ?limit=<n> keeps only the most recent snapshots. Empty while the schedule hides the results.
+export async function historyResponse(board: BoardRef, req: Request) {
+  try {
+    resolveBoard(board);
+    if (resultsHidden(await getBoardLifecycle(board))) return NextResponse.json({ snapshots: [] });
+    const limit = Number(new URL(req.url).searchParams.get("limit")) || undefined;
+    return NextResponse.json({ snapshots: await readHistory(board, limit) });
+  } catch (e: any) {
+    return errorResponse(e);
+  }
+}
+
+export function streamResponse(board: BoardRef, req: Request) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try { controller.enqueue(encoder.encode(chunk)); } catch { cleanup(); }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      write("retry: 2000\n\n");
+      const unsubscribe = subscribe(board, {
+        onSnapshot: (payload) => send("snapshot", payload),
+        onError: (message) => send("source-error", { error: message }),
+      });
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try { controller.close(); } catch { /* already closed */ }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// ---- Public API ----
+// Readable from browsers on other sites; PUBLIC_API_ORIGINS narrows which ones.
+export function corsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("origin");
+  const allowed = PUBLIC_API_ORIGINS.includes("*") ? "*" : origin && PUBLIC_API_ORIGINS.includes(origin) ? origin : null;
+  return {
+    ...(allowed ? { "Access-Control-Allow-Origin": allowed } : {}),
+    ...(allowed && allowed !== "*" ? { Vary: "Origin" } : {}),
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Allow-Headers": "If-None-Match",
+    "Access-Control-Expose-Headers": "ETag",
+    "Access-Control-Max-Age": "86400",
+  };
+}
+
+export const preflightResponse = (req: Request) => new Response(null, { status: 204, headers: corsHeaders(req) });
+
+function withCors(res: Response, req: Request) {
+  for (const [k, v] of Object.entries(corsHeaders(req))) res.headers.set(k, v);
+  return res;
+}
+
+// Weak comparison, as If-None-Match requires.
+const matchesETag = (req: Request, etag: string) =>
+  (req.headers.get("if-none-match") ?? "").split(",").some(t => {
+    const tag = t.trim();
+    return tag === "*" || tag.replace(/^W\//, "") === etag.replace(/^W\//, "");
+  });
+
+// ?event=<id>&round=<id>&top=<n>. Pollers send If-None-Match and get a 304 until the standings change.
+export async function leaderboardResponse(req: Request) {
+  const q = new URL(req.url).searchParams;
+  const eventId = q.get("event") || undefined;
+  const board: BoardRef = { eventId, round: eventId ? q.get("round") || undefined : undefined };
+  const top = Math.floor(Number(q.get("top")));
+  try {
+    const leaderboard = publicLeaderboard(board, await getPublicScores(board), top > 0 ? top : undefined);
+    const etag = leaderboardETag(leaderboard);
+    const headers = { ...corsHeaders(req), ETag: etag, "Cache-Control": "public, max-age=0, must-revalidate" };
+    if (matchesETag(req, etag)) return new Response(null, { status: 304, headers });
+    return NextResponse.json(leaderboard, { headers });
+  } catch (e: any) {
+    return withCors(errorResponse(e), req);
+  }
+}
+
+const escapeAttr = (s: string) => s.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+// oEmbed (https://oembed.com) for board, event, round and embed URLs on this site.
+export function oembedResponse(req: Request) {
+  const self = new URL(req.url);
+  const q = self.searchParams;
+  const fail = (error: string, status: number) => withCors(NextResponse.json({ error }, { status }), req);
+  if ((q.get("format") ?? "json") !== "json") return fail("Only format=json is supported", 501);
+
+  let target: URL;
+  try {
+    target = new URL(q.get("url") ?? "");
+  } catch {
+    return fail("A url parameter is required", 400);
+  }
+  const board = target.host === self.host ? boardFromPath(target.pathname, target.searchParams) : null;
+  if (!board) return fail("Not an embeddable URL on this site", 404);
+
+  try {
+    resolveBoard(board);
+    const isEmbed = target.pathname === "/embed";
+    const options = embedOptions(isEmbed ? Object.fromEntries(target.searchParams) : {});
+    const { width, height } = embedSize(options, Number(q.get("maxwidth")), Number(q.get("maxheight")));
+    const { title } = boardBranding(board);
+    const src = isEmbed ? target.href : `${target.origin}${embedPath(board)}`;
+    return withCors(NextResponse.json({
+      version: "1.0",
+      type: "rich",
+      provider_name: DEFAULT_BRANDING.title,
+      provider_url: target.origin,
+      title,
+      width,
+      height,
+      html: `<iframe src="${escapeAttr(src)}" width="${width}" height="${height}" style="border:0" title="${escapeAttr(title)}" loading="lazy"></iframe>`,
+    }), req);
+  } catch (e: any) {
+    return withCors(errorResponse(e), req);
+  }
+}
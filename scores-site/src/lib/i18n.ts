@@ -0,0 +1,199 @@
+// ---- Message catalogs (safe to import from client components) ----
+// Placeholders are written {name}. A message that depends on a count lists its plural forms
+// (Intl.PluralRules categories) and is picked by the `count` variable.
+type Plural = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+type Message = string | Plural;
+
+const en = {
+  subtitle: "Real-time presentation scores",
+  logo: "Logo",
+  updated: "Updated {time}",
+  statusLive: "LIVE",
+  statusReconnecting: "RECONNECTING",
+  statusStale: "STALE",
+  statusUpcoming: "UPCOMING",
+  statusEmbargo: "RESULTS PENDING",
+  statusClosed: "FINAL",
+  topPerformers: "Top Performers",
+  allParticipants: "All Participants ({count})",
+  score: "Score",
+  count: "Count",
+  average: "Average",
+  median: "Median",
+  averageShort: "Avg: {value}",
+  rank: "Rank",
+  name: "Name",
+  change: "Change",
+  place: "Rank {rank}",
+  scoreHistory: "Score history",
+  adjusted: "Adjusted by the organizers",
+  breakdown: "How the score is blended",
+  viewIndividual: "Individual",
+  viewTeam: "By team",
+  viewCategory: "By category",
+  allTeams: "All teams",
+  allCategories: "All categories",
+  teamStandings: "Team Standings",
+  categoryStandings: "Category Standings",
+  members: { one: "{count} member", other: "{count} members" },
+  layout: "Layout",
+  layoutCards: "Cards",
+  layoutTable: "Table",
+  standings: "Standings",
+  loading: "Loading scores...",
+  lastGoodData: "Showing last good data",
+  lastGoodDataFrom: "Showing last good data from {time}",
+  loadError: "Error loading data",
+  noData: "No data found",
+  noRows: "The data source returned no rows",
+  diagnostics: { one: "{count} source row was skipped or flagged", other: "{count} source rows were skipped or flagged" },
+  footerLive: "Updates live as scores change",
+  footerPolling: "Connection lost, checking every {seconds} seconds",
+  results: "Results & exports",
+  replayHistory: "Replay history",
+  replayPlay: "Play replay",
+  replayPause: "Pause replay",
+  replaySnapshot: "Snapshot",
+  backToLive: "Back to live",
+  movementNew: "NEW",
+  movedUp: { one: "up {count} place", other: "up {count} places" },
+  movedDown: { one: "down {count} place", other: "down {count} places" },
+  announceUp: "{name} moved up to rank {rank}",
+  announceDown: "{name} moved down to rank {rank}",
+  announceNew: "{name} joined at rank {rank}",
+  announceMore: { one: "and {count} more change", other: "and {count} more changes" },
+  revealIn: "Revealing the top 3 in",
+  biggestMovers: "Biggest Movers",
+  paused: "Paused",
+  kioskKeys: "Space pause · ← → navigate",
+  kioskRevealKey: "R reveal top 3",
+  fullBoard: "Full scoreboard",
+  startsIn: "Starts in",
+  startsAt: "Starts {time}",
+  startingSoon: "Starting any moment",
+  days: { one: "{count} day", other: "{count} days" },
+  lineup: "Presenters",
+  embargoNames: "Results are held back until the organizers publish them.",
+  embargoTop3: "The top 3 will be revealed when the results are published.",
+  closedNotice: "Scoring has closed. These are the final results.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+const ar: Record<MessageKey, Message> = {
+  subtitle: "نتائج العروض مباشرةً",
+  logo: "الشعار",
+  updated: "آخر تحديث {time}",
+  statusLive: "مباشر",
+  statusReconnecting: "جارٍ إعادة الاتصال",
+  statusStale: "غير محدَّث",
+  statusUpcoming: "قريبًا",
+  statusEmbargo: "النتائج قيد الانتظار",
+  statusClosed: "نهائي",
+  topPerformers: "الأفضل أداءً",
+  allParticipants: "جميع المشاركين ({count})",
+  score: "النتيجة",
+  count: "العدد",
+  average: "المتوسط",
+  median: "الوسيط",
+  averageShort: "المتوسط: {value}",
+  rank: "المركز",
+  name: "الاسم",
+  change: "التغيّر",
+  place: "المركز {rank}",
+  scoreHistory: "سجل النتائج",
+  adjusted: "عدّلها المنظمون",
+  breakdown: "طريقة احتساب النتيجة",
+  viewIndividual: "فردي",
+  viewTeam: "حسب الفريق",
+  viewCategory: "حسب الفئة",
+  allTeams: "كل الفرق",
+  allCategories: "كل الفئات",
+  teamStandings: "ترتيب الفرق",
+  categoryStandings: "ترتيب الفئات",
+  members: { zero: "لا أعضاء", one: "عضو واحد", two: "عضوان", few: "{count} أعضاء", many: "{count} عضوًا", other: "{count} عضو" },
+  layout: "طريقة العرض",
+  layoutCards: "بطاقات",
+  layoutTable: "جدول",
+  standings: "الترتيب",
+  loading: "جارٍ تحميل النتائج...",
+  lastGoodData: "عرض آخر بيانات سليمة",
+  lastGoodDataFrom: "عرض آخر بيانات سليمة من {time}",
+  loadError: "تعذّر تحميل البيانات",
+  noData: "لا توجد بيانات",
+  noRows: "لم يُرجع مصدر البيانات أي صفوف",
+  diagnostics: { one: "تم تخطي صف واحد من المصدر أو تمييزه", other: "تم تخطي {count} من صفوف المصدر أو تمييزها" },
+  footerLive: "تُحدَّث مباشرةً مع تغيّر النتائج",
+  footerPolling: "انقطع الاتصال، يجري التحقق كل {seconds} ثوانٍ",
+  results: "النتائج والتصدير",
+  replayHistory: "إعادة عرض السجل",
+  replayPlay: "تشغيل الإعادة",
+  replayPause: "إيقاف الإعادة مؤقتًا",
+  replaySnapshot: "اللقطة",
+  backToLive: "العودة إلى البث المباشر",
+  movementNew: "جديد",
+  movedUp: { one: "تقدّم مركزًا واحدًا", two: "تقدّم مركزين", other: "تقدّم {count} مراكز" },
+  movedDown: { one: "تراجع مركزًا واحدًا", two: "تراجع مركزين", other: "تراجع {count} مراكز" },
+  announceUp: "{name} تقدّم إلى المركز {rank}",
+  announceDown: "{name} تراجع إلى المركز {rank}",
+  announceNew: "{name} انضم في المركز {rank}",
+  announceMore: { other: "و{count} تغييرات أخرى" },
+  revealIn: "الكشف عن المراكز الثلاثة الأولى خلال",
+  biggestMovers: "الأكثر تقدّمًا",
+  paused: "متوقف مؤقتًا",
+  kioskKeys: "المسافة للإيقاف · ← → للتنقل",
+  kioskRevealKey: "R للكشف عن الثلاثة الأوائل",
+  fullBoard: "لوحة النتائج كاملة",
+  startsIn: "يبدأ خلال",
+  startsAt: "يبدأ {time}",
+  startingSoon: "يبدأ في أي لحظة",
+  days: { zero: "{count} يوم", one: "يوم واحد", two: "يومان", few: "{count} أيام", many: "{count} يومًا", other: "{count} يوم" },
+  lineup: "المقدّمون",
+  embargoNames: "النتائج محجوبة حتى ينشرها المنظمون.",
+  embargoTop3: "سيُكشف عن المراكز الثلاثة الأولى عند نشر النتائج.",
+  closedNotice: "انتهى التقييم، وهذه هي النتائج النهائية.",
+};
+
+const CATALOGS = { en, ar } satisfies Record<string, Record<MessageKey, Message>>;
+
+export type Locale = keyof typeof CATALOGS;
+
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+export const DEFAULT_LOCALE: Locale = "en";
+const RTL_LOCALES: Locale[] = ["ar"];
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// ---- Translator ----
+// Messages plus number and time formatting for one locale.
+export function translator(locale: Locale = DEFAULT_LOCALE) {
+  const catalog: Record<MessageKey, Message> = CATALOGS[locale];
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  const number = (n: number) => numbers.format(n);
+
+  const t = (key: MessageKey, vars: Record<string, string | number> = {}) => {
+    const message = catalog[key] ?? en[key];
+    const text = typeof message === "string"
+      ? message
+      : message[plurals.select(Number(vars.count ?? 0))] ?? message.other;
+    return text.replace(/\{(\w+)\}/g, (_, name: string) => {
+      const value = vars[name];
+      return value === undefined ? "" : typeof value === "number" ? number(value) : value;
+    });
+  };
+
+  return {
+    locale,
+    dir: RTL_LOCALES.includes(locale) ? "rtl" as const : "ltr" as const,
+    t,
+    number,
+    // Scores arrive pre-formatted; plain numbers are re-formatted, anything else is shown as-is.
+    score: (text: string) => (/^-?\d+(\.\d+)?$/.test(text.trim()) ? number(Number(text)) : text),
+    time: (date: Date) => date.toLocaleTimeString(locale),
+    shortTime: (date: Date) => date.toLocaleTimeString(locale, { hour: "2-digit", minute: "2-digit" }),
+    dateTime: (date: Date) => date.toLocaleString(locale),
+  };
+}
+
+export type Translator = ReturnType<typeof translator>;
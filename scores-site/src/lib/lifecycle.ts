@@ -0,0 +1,59 @@
+import type { ScheduleConfig } from "./config";
+import { boardSchedule, type BoardRef } from "./events";
+import { getBoardOverrides } from "./overrides";
+import type { BoardLifecycle, EmbargoMode, LifecyclePhase, Snapshot } from "./scoring";
+
+// ---- Board lifecycle ----
+// upcoming (before startsAt) → live → closed (from endsAt). A closed board freezes its final
+// standings; an embargo holds results back from the start until an operator publishes them.
+const EMBARGO_MODES: EmbargoMode[] = ["names", "top3"];
+
+function parseTime(value: string | undefined, field: string) {
+  if (value === undefined) return undefined;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`Schedule ${field} must be an ISO date and time, got "${value}"`);
+  return ms;
+}
+
+export function lifecyclePhase(schedule: ScheduleConfig, now = Date.now()): LifecyclePhase {
+  const start = parseTime(schedule.startsAt, "startsAt");
+  const end = parseTime(schedule.endsAt, "endsAt");
+  if (start !== undefined && end !== undefined && end <= start) throw new Error("Schedule endsAt must be after startsAt");
+  if (start !== undefined && now < start) return "upcoming";
+  if (end !== undefined && now >= end) return "closed";
+  return "live";
+}
+
+export function boardLifecycle(schedule: ScheduleConfig, published: boolean, now = Date.now()): BoardLifecycle {
+  if (schedule.embargo && !EMBARGO_MODES.includes(schedule.embargo)) {
+    throw new Error(`Unknown embargo "${schedule.embargo}" (expected ${EMBARGO_MODES.join(" or ")})`);
+  }
+  return {
+    phase: lifecyclePhase(schedule, now),
+    startsAt: schedule.startsAt,
+    endsAt: schedule.endsAt,
+    embargo: published ? undefined : schedule.embargo,
+  };
+}
+
+export async function getBoardLifecycle(board: BoardRef) {
+  return boardLifecycle(boardSchedule(board), (await getBoardOverrides(board)).published);
+}
+
+// True while viewers may not see any scores, e.g. for history and per-participant pages.
+export const resultsHidden = (lifecycle: BoardLifecycle) => lifecycle.phase === "upcoming" || !!lifecycle.embargo;
+
+// What viewers may see of a snapshot: only the lineup before the start or under a "names"
+// embargo, and everyone but the top 3 under a "top3" one. Groups and diagnostics would give
+// the hidden ranks away, so they go too.
+export function presentSnapshot(snapshot: Snapshot, lifecycle: BoardLifecycle, lineup?: string[]): Snapshot {
+  const { updatedAt, staleError } = snapshot;
+  if (lifecycle.phase === "upcoming" || lifecycle.embargo === "names") {
+    const names = lineup ?? snapshot.rows.map(r => r.profile?.name ?? r.name).sort((a, b) => a.localeCompare(b));
+    return { rows: [], updatedAt, staleError, lifecycle: { ...lifecycle, lineup: names } };
+  }
+  if (lifecycle.embargo === "top3") {
+    return { rows: snapshot.rows.filter(r => r.rank > 3), updatedAt, staleError, lifecycle };
+  }
+  return { ...snapshot, lifecycle };
+}
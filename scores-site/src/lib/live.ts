@@ -0,0 +1,65 @@
+import { STREAM_POLL_MS } from "./config";
+import { boardKey, type BoardRef } from "./events";
+import { rowsSignature, type Snapshot } from "./scoring";
+import { getPublicScores } from "./scores";
+
+// ---- Live snapshot broadcaster ----
+// One server-side poller per board, shared by every open stream; it only runs
+// while someone is subscribed and only notifies when the rows actually change.
+type Subscriber = {
+  onSnapshot: (payload: Snapshot) => void;
+  onError: (message: string) => void;
+};
+
+type Channel = {
+  board: BoardRef;
+  subscribers: Set<Subscriber>;
+  timer: ReturnType<typeof setInterval> | null;
+  latest: Snapshot | null;
+  lastSignature: string | null;
+};
+
+const channels = new Map<string, Channel>();
+
+async function tick(channel: Channel) {
+  try {
+    const payload = await getPublicScores(channel.board);
+    // A phase change or a published embargo is news even when the rows stay the same.
+    const sig = rowsSignature(payload.rows) + (payload.staleError ? ":stale" : "") + JSON.stringify(payload.lifecycle ?? null);
+    if (sig !== channel.lastSignature) {
+      channel.lastSignature = sig;
+      channel.latest = payload;
+      channel.subscribers.forEach(s => s.onSnapshot(payload));
+    }
+    // Last good data is still being served; tell viewers the source is failing.
+    const { staleError } = payload;
+    if (staleError) channel.subscribers.forEach(s => s.onError(staleError));
+  } catch (e: any) {
+    const message = e.message || "Failed to load data";
+    channel.subscribers.forEach(s => s.onError(message));
+  }
+}
+
+export function subscribe(board: BoardRef, subscriber: Subscriber) {
+  const key = boardKey(board);
+  let channel = channels.get(key);
+  if (!channel) {
+    channel = { board, subscribers: new Set(), timer: null, latest: null, lastSignature: null };
+    channels.set(key, channel);
+  }
+
+  const ch = channel;
+  ch.subscribers.add(subscriber);
+  if (ch.latest) subscriber.onSnapshot(ch.latest);
+  if (!ch.timer) {
+    ch.timer = setInterval(() => tick(ch), STREAM_POLL_MS);
+    tick(ch);
+  }
+  return () => {
+    ch.subscribers.delete(subscriber);
+    if (!ch.subscribers.size) {
+      if (ch.timer) clearInterval(ch.timer);
+      channels.delete(key);
+    }
+  };
+}
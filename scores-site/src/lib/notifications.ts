@@ -0,0 +1,183 @@
+import { readJsonConfig, RETRY_BASE_MS } from "./config";
+import { boardBranding, type BoardRef } from "./events";
+import type { RankedParticipant, Snapshot } from "./scoring";
+import { appendJsonLine, dataPath } from "./store";
+
+// ---- Notifications config ----
+// Loaded from notifications.config.json (or NOTIFICATIONS_CONFIG), re-read per change.
+export type NotificationKind = "new-leader" | "top3-entry" | "threshold" | "final-results";
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ["new-leader", "top3-entry", "threshold", "final-results"];
+
+export type WebhookConfig = {
+  url: string;
+  events?: NotificationKind[];        // default: all
+  boards?: string[];                  // event ids, "default" for the main board; default: all
+  template?: unknown;                 // JSON with {{placeholders}}; default: the whole notification
+  headers?: Record<string, string>;
+};
+
+export type NotificationsConfig = {
+  webhooks?: WebhookConfig[];
+  thresholds?: number[];              // score milestones for "threshold" events
+  retries?: number;                   // extra attempts per delivery (default 3)
+};
+
+export function getNotificationsConfig(): NotificationsConfig {
+  const config = readJsonConfig<NotificationsConfig>("NOTIFICATIONS_CONFIG", "notifications.config.json") ?? {};
+  for (const hook of config.webhooks ?? []) {
+    if (typeof hook.url !== "string" || !/^https?:\/\//.test(hook.url)) {
+      throw new Error(`Webhook url must be an http(s) URL, got "${hook.url}"`);
+    }
+    const bad = hook.events?.find(e => !NOTIFICATION_KINDS.includes(e));
+    if (bad) throw new Error(`Unknown notification event "${bad}" (expected ${NOTIFICATION_KINDS.join(", ")})`);
+  }
+  return config;
+}
+
+// ---- Change detection ----
+export type Notification = {
+  event: NotificationKind;
+  board: string;         // event id, or "default"
+  title: string;         // board title, e.g. "Finals · Overall"
+  text: string;          // ready-made message for chat apps
+  name: string;
+  rank: number;
+  score: string;
+  previous?: string;     // the leader who was passed
+  threshold?: number;
+  at: string;
+};
+
+const isTop3 = (r: RankedParticipant) => r.rank <= 3;
+
+// Compares two consecutive snapshots of a board. The very first snapshot announces nothing.
+export function detectChanges(prev: Snapshot | undefined, next: Snapshot, thresholds: number[] = []) {
+  if (!prev) return [];
+  const before = new Map(prev.rows.map(r => [r.name, r]));
+  const base = { at: next.updatedAt };
+  const found: Omit<Notification, "board" | "title" | "text">[] = [];
+
+  const oldLeaders = prev.rows.filter(r => r.rank === 1);
+  for (const row of next.rows.filter(r => r.rank === 1)) {
+    if (before.get(row.name)?.rank === 1) continue;
+    found.push({ ...base, event: "new-leader", name: row.name, rank: row.rank, score: row.score, previous: oldLeaders[0]?.name });
+  }
+
+  for (const row of next.rows.filter(isTop3)) {
+    const old = before.get(row.name);
+    if ((old && isTop3(old)) || row.rank === 1) continue;
+    found.push({ ...base, event: "top3-entry", name: row.name, rank: row.rank, score: row.score });
+  }
+
+  for (const threshold of thresholds) {
+    for (const row of next.rows) {
+      const old = before.get(row.name);
+      if (row.scoreNum < threshold || (old && old.scoreNum >= threshold)) continue;
+      found.push({ ...base, event: "threshold", name: row.name, rank: row.rank, score: row.score, threshold });
+    }
+  }
+  return found;
+}
+
+function describe(n: Omit<Notification, "text">, top: RankedParticipant[] = []) {
+  switch (n.event) {
+    case "new-leader":
+      return `🥇 ${n.name} takes the lead on ${n.title} with ${n.score}${n.previous ? `, passing ${n.previous}` : ""}`;
+    case "top3-entry":
+      return `🏅 ${n.name} enters the top 3 on ${n.title} at #${n.rank} (${n.score})`;
+    case "threshold":
+      return `🎯 ${n.name} passes ${n.threshold} points on ${n.title} (${n.score})`;
+    case "final-results":
+      return `🏁 Final results for ${n.title}: ${top.map(r => `${r.rank}. ${r.name} (${r.score})`).join(", ")}`;
+  }
+}
+
+// ---- Delivery ----
+const NOTIFICATIONS_LOG = dataPath("notifications.log");
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Replaces {{name}} in every string of the template; unknown placeholders become "".
+export function renderTemplate(template: unknown, vars: Record<string, unknown>): unknown {
+  if (typeof template === "string") {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => (vars[key] == null ? "" : String(vars[key])));
+  }
+  if (Array.isArray(template)) return template.map(t => renderTemplate(t, vars));
+  if (template && typeof template === "object") {
+    return Object.fromEntries(Object.entries(template).map(([k, v]) => [k, renderTemplate(v, vars)]));
+  }
+  return template;
+}
+
+// Server errors, rate limits and network failures are retried with exponential backoff.
+async function deliver(hook: WebhookConfig, n: Notification, retries: number) {
+  const body = JSON.stringify(hook.template === undefined ? n : renderTemplate(hook.template, n));
+  let status = 0, error: string | undefined, attempt = 0;
+  for (; attempt <= retries; attempt++) {
+    if (attempt) await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    try {
+      const res = await fetch(hook.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...hook.headers },
+        body,
+        signal: AbortSignal.timeout(10_000),
+      });
+      status = res.status;
+      error = res.ok ? undefined : `HTTP ${res.status}`;
+      if (res.ok || (res.status < 500 && res.status !== 429)) break;
+    } catch (e: any) {
+      error = e.message || "Request failed";
+    }
+  }
+  // Only the host is logged; webhook paths often carry secrets.
+  await appendJsonLine(NOTIFICATIONS_LOG, {
+    at: new Date().toISOString(),
+    host: new URL(hook.url).host,
+    event: n.event,
+    board: n.board,
+    status,
+    attempts: Math.min(attempt + 1, retries + 1),
+    error,
+  });
+}
+
+const boardId = (board: BoardRef) => board.eventId ?? "default";
+
+function send(board: BoardRef, found: Omit<Notification, "board" | "title" | "text">[], top?: RankedParticipant[]) {
+  const config = getNotificationsConfig();
+  if (!found.length || !config.webhooks?.length) return;
+  const { title } = boardBranding(board);
+  const notifications = found.map((f): Notification => {
+    const n = { ...f, board: boardId(board), title };
+    return { ...n, text: describe(n, top) };
+  });
+
+  // Fire and forget, so a slow webhook never holds up the board.
+  for (const hook of config.webhooks) {
+    if (hook.boards && !hook.boards.includes(boardId(board))) continue;
+    for (const n of notifications) {
+      if (hook.events && !hook.events.includes(n.event)) continue;
+      deliver(hook, n, config.retries ?? 3).catch(e => console.error("Failed to deliver notification:", e));
+    }
+  }
+}
+
+export function notifyChanges(board: BoardRef, prev: Snapshot | undefined, next: Snapshot) {
+  try {
+    send(board, detectChanges(prev, next, getNotificationsConfig().thresholds));
+  } catch (e) {
+    console.error("Failed to send notifications:", e);
+  }
+}
+
+// Sent when a board closes on schedule, or when an operator publishes a frozen board.
+export function notifyFinalResults(board: BoardRef, snapshot: Snapshot) {
+  const top = snapshot.rows.filter(isTop3);
+  const winner = top[0];
+  if (!winner) return;
+  try {
+    send(board, [{ event: "final-results", name: winner.name, rank: winner.rank, score: winner.score, at: new Date().toISOString() }], top);
+  } catch (e) {
+    console.error("Failed to send notifications:", e);
+  }
+}
@@ -0,0 +1,67 @@
+import { formatScore } from "./columns";
+import { boardKey, type BoardRef } from "./events";
+import { nameKey } from "./participants";
+import { dataPath, readJsonFile, updateJsonFile } from "./store";
+import type { ParticipantRow, Snapshot } from "./scoring";
+
+// ---- Operator overrides ----
+// Layered on top of whatever the source returns, before ranking.
+export type ScoreOverride = {
+  name: string;
+  set?: number;      // replaces the score (adds the participant if the source lacks them)
+  adjust?: number;   // added to the score
+};
+
+export type BoardOverrides = {
+  scores: Record<string, ScoreOverride>;   // keyed by nameKey
+  hidden: string[];                        // display names, matched by nameKey
+  frozen: Snapshot | null;            // snapshot served while frozen
+  published: boolean;                 // lifts the schedule's results embargo
+};
+
+type OverridesFile = Record<string, BoardOverrides>;
+
+const OVERRIDES_FILE = dataPath("overrides.json");
+
+export const emptyOverrides = (): BoardOverrides => ({ scores: {}, hidden: [], frozen: null, published: false });
+
+export async function getBoardOverrides(board: BoardRef): Promise<BoardOverrides> {
+  const file = await readJsonFile<OverridesFile>(OVERRIDES_FILE, {});
+  return { ...emptyOverrides(), ...file[boardKey(board)] };
+}
+
+export function updateBoardOverrides(board: BoardRef, mutate: (o: BoardOverrides) => void) {
+  const key = boardKey(board);
+  return updateJsonFile<OverridesFile>(OVERRIDES_FILE, {}, (file) => {
+    const current = { ...emptyOverrides(), ...file[key] };
+    mutate(current);
+    file[key] = current;
+  }).then(file => file[key]);
+}
+
+export function applyOverrides(rows: ParticipantRow[], overrides: BoardOverrides): ParticipantRow[] {
+  const hidden = new Set(overrides.hidden.map(nameKey));
+  const pending = new Map(Object.entries(overrides.scores));
+
+  const result = rows
+    .filter(r => !hidden.has(nameKey(r.name)))
+    .map(r => {
+      const k = nameKey(r.name);
+      const o = pending.get(k);
+      if (!o) return r;
+      pending.delete(k);
+      const scoreNum = (o.set ?? r.scoreNum) + (o.adjust ?? 0);
+      return { ...r, scoreNum, score: formatScore(scoreNum), adjusted: true };
+    });
+
+  // Manually entered participants the source doesn't know about yet.
+  for (const [k, o] of pending) {
+    if (o.set === undefined || hidden.has(k)) continue;
+    const scoreNum = o.set + (o.adjust ?? 0);
+    result.push({
+      name: o.name, sum: "", count: "", avg: "", median: "",
+      score: formatScore(scoreNum), scoreNum, extra: [], adjusted: true,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,28 @@
+import { notFound } from "next/navigation";
+import { NotFoundError, resolveBoard, type BoardRef } from "./events";
+
+// ---- Board pages outside the scoreboard ----
+// ?event=<id>&round=<id> picks the board (see boardQuery); omit both for the default board.
+export type BoardSearchParams = Promise<{ event?: string; round?: string; [key: string]: string | string[] | undefined }>;
+
+export async function boardFromSearchParams(searchParams: BoardSearchParams): Promise<BoardRef> {
+  const { event, round } = await searchParams;
+  const board = { eventId: event, round };
+  try {
+    resolveBoard(board);
+  } catch (e) {
+    if (e instanceof NotFoundError) notFound();
+    throw e;
+  }
+  return board;
+}
+
+// Next hands dynamic route params to pages percent-encoded, so they are decoded exactly once
+// here. A sequence that can't be decoded is kept as written rather than failing the page.
+export function routeParam(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,73 @@
+import { cell, columnFinder, splitHeader } from "./columns";
+import { readJsonConfig } from "./config";
+import { fetchFromSource, type SourceConfig } from "./sources";
+import type { Profile, ParticipantRow } from "./scoring";
+
+// ---- Participant registry ----
+export type ParticipantEntry = Profile & { aliases?: string[] };
+
+type RegistryFile = {
+  participants?: ParticipantEntry[];
+  source?: SourceConfig;   // optional sheet tab: Id, Name, Aliases, Photo, Team, Title
+};
+
+// Case-, accent-form- and whitespace-insensitive key for matching sheet names.
+export const nameKey = (s: string) => s.normalize("NFKC").trim().toLowerCase().replace(/\s+/g, " ");
+
+function entriesFromTable(values: string[][]): ParticipantEntry[] {
+  if (!values.length) return [];
+  const { header, data } = splitHeader(values, "Name");
+  const find = columnFinder(header);
+  const nameIdx = find("Name", "participant name", true);
+  const idIdx = find("Id", "participant id", false);
+  const aliasIdx = find("Aliases", "aliases", false);
+  const photoIdx = find("Photo", "photo", false);
+  const teamIdx = find("Team", "team", false);
+  const titleIdx = find("Title", "title", false);
+
+  return data
+    .filter(r => cell(r, nameIdx))
+    .map(r => ({
+      id: cell(r, idIdx) || nameKey(cell(r, nameIdx)).replace(/ /g, "-"),
+      name: cell(r, nameIdx),
+      aliases: cell(r, aliasIdx).split(/[,;|]/).map(a => a.trim()).filter(Boolean),
+      photo: cell(r, photoIdx) || undefined,
+      team: cell(r, teamIdx) || undefined,
+      title: cell(r, titleIdx) || undefined,
+    }));
+}
+
+// Loaded from participants.config.json (or PARTICIPANTS_CONFIG); entries from a
+// sheet tab are added after the ones listed in the file.
+export async function loadRegistry(): Promise<ParticipantEntry[]> {
+  const file = readJsonConfig<RegistryFile>("PARTICIPANTS_CONFIG", "participants.config.json");
+  const entries = [...(file?.participants ?? [])];
+  if (file?.source) entries.push(...entriesFromTable((await fetchFromSource(file.source)).rows));
+  return entries;
+}
+
+export function profileMatcher(entries: ParticipantEntry[]) {
+  const byKey = new Map<string, Profile>();
+  for (const { aliases, ...profile } of entries) {
+    for (const n of [profile.name, profile.id, ...(aliases ?? [])]) {
+      const k = nameKey(n);
+      if (!byKey.has(k)) byKey.set(k, profile);
+    }
+  }
+  return (name: string) => byKey.get(nameKey(name));
+}
+
+// A broken registry should not take the board down; the admin page reports it.
+export async function attachProfiles<T extends ParticipantRow>(rows: T[]): Promise<T[]> {
+  let entries: ParticipantEntry[] = [];
+  try {
+    entries = await loadRegistry();
+  } catch (e) {
+    console.error("Participant registry failed to load:", e);
+  }
+  const match = profileMatcher(entries);
+  return rows.map(r => {
+    const profile = match(r.name);
+    return { ...r, profile, team: r.team || profile?.team };
+  });
+}
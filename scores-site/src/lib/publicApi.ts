@@ -0,0 +1,62 @@
+import { createHash } from "node:crypto";
+import { boardBranding, type BoardRef } from "./events";
+import type { EmbargoMode, LifecyclePhase, Snapshot } from "./scoring";
+
+// ---- Public read-only API (v1) ----
+// A stable shape for other sites to consume; internal fields (overrides, diagnostics,
+// source rows) stay out so the board's own payload can keep changing.
+export type PublicParticipant = {
+  rank: number;
+  name: string;
+  score: string;
+  scoreNum: number;
+  count: string;
+  avg: string;
+  team?: string;
+  category?: string;
+  photo?: string;
+  extra: Record<string, string>;
+};
+
+export type PublicLeaderboard = {
+  version: 1;
+  board: { event: string | null; round: string | null; title: string };
+  updatedAt: string;
+  stale: boolean;          // true while the source is failing and this is the last good data
+  phase: LifecyclePhase;   // "upcoming" and "closed" only on scheduled boards
+  embargo: EmbargoMode | null;   // set while results are held back; see the lineup instead
+  lineup: string[] | null;
+  participants: PublicParticipant[];
+};
+
+export function publicLeaderboard(board: BoardRef, snapshot: Snapshot, top?: number): PublicLeaderboard {
+  const rows = top ? snapshot.rows.filter(r => r.rank <= top) : snapshot.rows;
+  return {
+    version: 1,
+    board: { event: board.eventId ?? null, round: board.round ?? null, title: boardBranding(board).title },
+    updatedAt: snapshot.updatedAt,
+    stale: !!snapshot.staleError,
+    phase: snapshot.lifecycle?.phase ?? "live",
+    embargo: snapshot.lifecycle?.embargo ?? null,
+    lineup: snapshot.lifecycle?.lineup ?? null,
+    participants: rows.map(r => ({
+      rank: r.rank,
+      name: r.profile?.name ?? r.name,
+      score: r.score,
+      scoreNum: r.scoreNum,
+      count: r.count,
+      avg: r.avg,
+      team: r.team,
+      category: r.category,
+      photo: r.profile?.photo,
+      extra: Object.fromEntries(r.extra.map(x => [x.label, x.value])),
+    })),
+  };
+}
+
+// Weak, because it covers the standings rather than the exact bytes: a reload that finds the
+// same rows only moves updatedAt, and pollers should still get a 304 for it.
+export function leaderboardETag({ updatedAt, ...standings }: PublicLeaderboard) {
+  const hash = createHash("sha1").update(JSON.stringify(standings)).digest("base64url");
+  return `W/"${hash}"`;
+}
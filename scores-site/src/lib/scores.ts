@@ -0,0 +1,128 @@
+import { aggregateRaw } from "./aggregate";
+import { mapRows } from "./columns";
+import { combineRounds } from "./combined";
+import { CACHE_TTL_MS, type ScoringConfig } from "./config";
+import { boardKey, boardSchedule, NotFoundError, resolveBoard, type BoardRef, type CombinedBoard } from "./events";
+import { buildGroups } from "./groups";
+import { readHistory, recordSnapshot } from "./history";
+import { boardLifecycle, presentSnapshot } from "./lifecycle";
+import { notifyChanges, notifyFinalResults } from "./notifications";
+import { applyOverrides, getBoardOverrides, updateBoardOverrides } from "./overrides";
+import { attachProfiles } from "./participants";
+import { withRanks, type ParticipantRow, type RowIssue, type Snapshot } from "./scoring";
+import { fetchFromSource, type SourceConfig } from "./sources";
+import { validateRows } from "./validate";
+
+// ---- Server-side cache ----
+// One upstream fetch per board per TTL window, no matter how many viewers are polling.
+const cache = new Map<string, { payload: Snapshot; expiresAt: number }>();
+const inflight = new Map<string, Promise<Snapshot>>();
+// Last successful payload per board, served (marked stale) while the source is failing.
+// After a restart the latest history snapshot stands in for it.
+const lastGood = new Map<string, Snapshot>();
+
+// Collected while loading a board and reported alongside the rows.
+type LoadNotes = { issues: RowIssue[]; staleError?: string };
+
+async function loadRows(source: SourceConfig, scoring: ScoringConfig, notes: LoadNotes): Promise<ParticipantRow[]> {
+  const { rows, decimalComma } = await fetchFromSource(source);
+  return scoring.mode === "raw" ? aggregateRaw(rows, scoring, notes.issues, decimalComma) : mapRows(rows, scoring, decimalComma);
+}
+
+// Overall standings from each round's board; see lib/combined.ts.
+async function loadCombined(board: CombinedBoard, notes: LoadNotes): Promise<ParticipantRow[]> {
+  const rounds = await Promise.all(board.rounds.map(r => getScores(r.ref)));
+  rounds.forEach((payload, i) => {
+    const title = board.rounds[i].title;
+    for (const issue of payload.diagnostics ?? []) notes.issues.push({ ...issue, detail: `${title}: ${issue.detail}` });
+    if (payload.staleError) notes.staleError ??= `${title}: ${payload.staleError}`;
+  });
+  return combineRounds(board.rounds, rounds);
+}
+
+async function loadScores(board: BoardRef): Promise<Snapshot> {
+  const plan = resolveBoard(board);
+  const overrides = await getBoardOverrides(board);
+  if (overrides.frozen) return overrides.frozen;
+  const lifecycle = boardLifecycle(boardSchedule(board), overrides.published);
+
+  const notes: LoadNotes = { issues: [] };
+  const loaded = plan.kind === "combined" ? await loadCombined(plan, notes) : await loadRows(plan.source, plan.scoring, notes);
+  const { rows, issues } = validateRows(loaded, notes.issues);
+  const ranked = await attachProfiles(withRanks(applyOverrides(rows, overrides), plan.scoring.ranking));
+  const payload: Snapshot = {
+    rows: ranked,
+    groups: buildGroups(ranked, plan.scoring),
+    diagnostics: issues.length ? issues : undefined,
+    updatedAt: new Date().toISOString(),
+    staleError: notes.staleError,
+  };
+  // History is best-effort; a storage failure must not take the board down.
+  const recorded = await recordSnapshot(board, payload).catch(e => {
+    console.error("Failed to record snapshot:", e);
+    return null;
+  });
+  // Announcing changes would give away what the schedule hides.
+  if (recorded && lifecycle.phase !== "upcoming" && !lifecycle.embargo) notifyChanges(board, recorded.previous, payload);
+
+  // The first load after the board closes becomes its final standings, as if an operator froze it.
+  // Without an embargo that also publishes them; under one they go out when an operator publishes.
+  if (lifecycle.phase === "closed") {
+    let froze = false;
+    await updateBoardOverrides(board, (o) => {
+      if (o.frozen) return;
+      o.frozen = payload;
+      if (!lifecycle.embargo) o.published = true;
+      froze = true;
+    });
+    if (froze && !lifecycle.embargo) notifyFinalResults(board, payload);
+  }
+  return payload;
+}
+
+export async function getScores(board: BoardRef = {}): Promise<Snapshot> {
+  const key = boardKey(board);
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.payload;
+
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = loadScores(board)
+      .then((payload) => {
+        lastGood.set(key, payload);
+        return payload;
+      })
+      .catch(async (e: any) => {
+        if (e instanceof NotFoundError) throw e;
+        const previous = lastGood.get(key) ?? (await readHistory(board, 1).catch(() => []))[0];
+        if (!previous) throw e;
+        return { ...previous, staleError: e.message || "Failed to load data" };
+      })
+      .then((payload) => {
+        cache.set(key, { payload, expiresAt: Date.now() + CACHE_TTL_MS });
+        return payload;
+      })
+      .finally(() => { inflight.delete(key); });
+    inflight.set(key, pending);
+  }
+  return pending;
+}
+
+// Drops the cached payload so the next request re-reads the source and overrides.
+// A round change also invalidates the event's overall standings built from it.
+export function invalidateScores(board: BoardRef) {
+  cache.delete(boardKey(board));
+  if (board.round) cache.delete(boardKey({ eventId: board.eventId }));
+}
+
+// ---- What viewers see ----
+// The board as its schedule allows right now. Operator tools use getScores for the full standings.
+export async function getPublicScores(board: BoardRef = {}): Promise<Snapshot> {
+  const schedule = boardSchedule(board);
+  const lifecycle = boardLifecycle(schedule, (await getBoardOverrides(board)).published);
+  // A configured lineup lets the board open before its source has any data.
+  if (lifecycle.phase === "upcoming" && schedule.lineup) {
+    return { rows: [], updatedAt: new Date().toISOString(), lifecycle: { ...lifecycle, lineup: schedule.lineup } };
+  }
+  return presentSnapshot(await getScores(board), lifecycle, schedule.lineup);
+}
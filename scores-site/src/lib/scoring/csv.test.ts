@@ -0,0 +1,80 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseCSV, sniffDelimiter } from "./csv";
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+
+describe("parseCSV", () => {
+  it("drops a byte-order mark before the header", () => {
+    const rows = parseCSV(fixture("bom.csv"));
+    expect(rows[0]).toEqual(["Name", "Sum", "Count", "Avg"]);
+    expect(rows).toHaveLength(3);
+  });
+
+  it("splits semicolon-separated rows", () => {
+    expect(parseCSV(fixture("semicolon.csv"))).toEqual([
+      ["Name", "Sum", "Count", "Avg"],
+      ["Alice", "84", "2", "42"],
+      ["Bob", "80", "2", "40"],
+    ]);
+  });
+
+  it("keeps decimal commas in a semicolon sheet with a title line", () => {
+    expect(parseCSV(fixture("title-line.csv"))).toEqual([
+      ["Spring Cup, final round", "", "", ""],
+      ["Name", "Sum", "Count", "Avg"],
+      ["Alice", "84,5", "2", "42,25"],
+      ["Bob", "80", "2", "40"],
+    ]);
+  });
+
+  it("reads delimiters, doubled quotes and line breaks inside quoted fields", () => {
+    expect(parseCSV(fixture("quoted.csv"))).toEqual([
+      ["Name", "Note", "Avg"],
+      ["Smith, Jane", 'Said "hi"\nthen left', "41.5"],
+      ["Bob", "plain", "40"],
+    ]);
+  });
+
+  it("treats a quote inside an unquoted field as literal", () => {
+    expect(parseCSV('Name,Avg\n5" Bolt,42\n')).toEqual([["Name", "Avg"], ['5" Bolt', "42"]]);
+  });
+
+  it.each([
+    ["LF", "\n"],
+    ["CRLF", "\r\n"],
+    ["bare CR", "\r"],
+  ])("accepts %s line endings and skips blank lines", (_, eol) => {
+    const text = fixture("line-endings.csv").replace(/\n/g, eol);
+    expect(parseCSV(text)).toEqual([["Name", "Avg"], ["Alice", "42"], ["Bob", "40"]]);
+  });
+
+  it("keeps a line break inside quotes whatever the line endings", () => {
+    const text = fixture("quoted.csv").replace(/\n/g, "\r\n");
+    expect(parseCSV(text)[1][1]).toBe('Said "hi"\r\nthen left');
+  });
+
+  it("uses an explicit delimiter instead of sniffing", () => {
+    expect(parseCSV("a;b,c\n", { delimiter: "," })).toEqual([["a;b", "c"]]);
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it.each([
+    ["bom.csv", ","],
+    ["semicolon.csv", ";"],
+    ["title-line.csv", ";"],
+    ["quoted.csv", ","],
+  ])("detects the delimiter of %s", (name, delim) => {
+    expect(sniffDelimiter(fixture(name))).toBe(delim);
+  });
+
+  it("detects tabs and pipes", () => {
+    expect(sniffDelimiter("Name\tAvg\nAlice\t42\n")).toBe("\t");
+    expect(sniffDelimiter("Name|Avg\nAlice|42\n")).toBe("|");
+  });
+
+  it("falls back to a comma for a single column", () => {
+    expect(sniffDelimiter("Name\nAlice\n")).toBe(",");
+  });
+});
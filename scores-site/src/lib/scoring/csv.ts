@@ -0,0 +1,66 @@
+// ---- CSV parsing (RFC 4180) ----
+// Quoted fields may hold delimiters, doubled quotes ("") and line breaks. CRLF, LF and CR
+// line endings are accepted, a leading byte-order mark is dropped and blank lines are skipped.
+
+export type CsvOptions = { delimiter?: string };
+
+// The rows plus the delimiter they were split on, whether given or sniffed.
+export type CsvTable = { rows: string[][]; delimiter: string };
+
+const DELIMITERS = [",", ";", "\t", "|"];
+const SNIFF_LINES = 10;
+
+function tokenize(text: string, delim: string, maxRows = Infinity): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], cur = "", inQuotes = false, quoted = false;
+  const endField = () => { row.push(cur); cur = ""; quoted = false; };
+  const endRow = () => { endField(); rows.push(row); row = []; };
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c !== '"') cur += c;
+      else if (text[i + 1] === '"') { cur += '"'; i++; }
+      else inQuotes = false;
+    } else if (c === '"' && cur === "" && !quoted) {
+      // Only a quote that opens a field starts a quoted section; elsewhere it's literal.
+      inQuotes = quoted = true;
+    } else if (c === delim) {
+      endField();
+    } else if (c === "\r" || c === "\n") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cur += c;
+    }
+  }
+  if (rows.length < maxRows && (cur !== "" || row.length || quoted)) endRow();
+  return rows;
+}
+
+const isBlank = (row: string[]) => row.every(cell => cell.trim() === "");
+
+// Picks the delimiter that splits the first lines into the same number of columns most
+// consistently, so a comma inside a semicolon-separated title line doesn't fool it.
+export function sniffDelimiter(text: string): string {
+  let best = DELIMITERS[0], bestScore = 0;
+  for (const delim of DELIMITERS) {
+    const sample = tokenize(text, delim, SNIFF_LINES).filter(r => !isBlank(r));
+    const widths = sample.map(r => r.length).filter(n => n > 1);
+    if (!widths.length) continue;
+    const counts = new Map<number, number>();
+    widths.forEach(n => counts.set(n, (counts.get(n) ?? 0) + 1));
+    const [width, agreeing] = [...counts].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    const score = agreeing * 1000 + width;
+    if (score > bestScore) { best = delim; bestScore = score; }
+  }
+  return best;
+}
+
+export function readCSV(csvText: string, options: CsvOptions = {}): CsvTable {
+  const text = csvText.charCodeAt(0) === 0xfeff ? csvText.slice(1) : csvText;
+  const delimiter = options.delimiter ?? sniffDelimiter(text);
+  return { rows: tokenize(text, delimiter).filter(r => !isBlank(r)), delimiter };
+}
+
+export const parseCSV = (csvText: string, options: CsvOptions = {}) => readCSV(csvText, options).rows;
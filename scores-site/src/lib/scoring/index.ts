@@ -0,0 +1,7 @@
+// ---- Scoring core ----
+// Framework-free parsing, ranking and diffing shared by the server routes and the UI.
+// Nothing here touches Node, React or Next, so client components can import it directly.
+export * from "./types";
+export { parseCSV, readCSV, sniffDelimiter, type CsvOptions, type CsvTable } from "./csv";
+export { TIE_BREAKER_NAMES, withRanks, type RankingConfig, type TieBreaker } from "./ranking";
+export { diffSnapshots, rowsSignature, type Movement } from "./movement";
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { diffSnapshots, rowsSignature } from "./movement";
+import type { RankedParticipant } from "./types";
+
+const ranked = (name: string, rank: number, scoreNum: number): RankedParticipant => ({
+  name, rank, scoreNum, score: String(scoreNum), sum: "", count: "", avg: "", median: "", extra: [],
+});
+
+describe("diffSnapshots", () => {
+  it("reports rank and score changes per participant", () => {
+    const prev = [ranked("A", 1, 90), ranked("B", 2, 80)];
+    const next = [ranked("B", 1, 95.5), ranked("A", 2, 90)];
+    expect(diffSnapshots(prev, next)).toEqual({
+      B: { rankDelta: 1, scoreDelta: 15.5, isNew: false },
+      A: { rankDelta: -1, scoreDelta: 0, isNew: false },
+    });
+  });
+
+  it("marks participants missing from the previous snapshot as new", () => {
+    expect(diffSnapshots([], [ranked("A", 1, 10)])).toEqual({ A: { rankDelta: 0, scoreDelta: 0, isNew: true } });
+  });
+
+  it("drops participants that left the board", () => {
+    expect(diffSnapshots([ranked("Gone", 1, 5), ranked("A", 2, 4)], [ranked("A", 1, 4)])).toEqual({
+      A: { rankDelta: 1, scoreDelta: 0, isNew: false },
+    });
+  });
+
+  it("rounds score deltas to two decimals", () => {
+    expect(diffSnapshots([ranked("A", 1, 0.1)], [ranked("A", 1, 0.3)]).A.scoreDelta).toBe(0.2);
+  });
+});
+
+describe("rowsSignature", () => {
+  it("changes with the data but not with the rank alone", () => {
+    const rows = [ranked("A", 1, 10)];
+    expect(rowsSignature([{ ...rows[0], rank: 2 }])).toBe(rowsSignature(rows));
+    expect(rowsSignature([{ ...rows[0], score: "11" }])).not.toBe(rowsSignature(rows));
+  });
+});
@@ -0,0 +1,24 @@
+import type { RankedParticipant } from "./types";
+
+// ---- Snapshot diffing ----
+export type Movement = {
+  rankDelta: number;   // positive = moved up
+  scoreDelta: number;
+  isNew: boolean;
+};
+
+export function rowsSignature(rows: RankedParticipant[]) {
+  return JSON.stringify(rows.map(r => [r.name, r.score, r.sum, r.count, r.avg, r.median, r.team, r.category, r.extra, r.breakdown, r.profile]));
+}
+
+export function diffSnapshots(prev: RankedParticipant[], next: RankedParticipant[]): Record<string, Movement> {
+  const before = new Map(prev.map(r => [r.name, r]));
+  const result: Record<string, Movement> = {};
+  for (const row of next) {
+    const old = before.get(row.name);
+    result[row.name] = old
+      ? { rankDelta: old.rank - row.rank, scoreDelta: Number((row.scoreNum - old.scoreNum).toFixed(2)), isNew: false }
+      : { rankDelta: 0, scoreDelta: 0, isNew: true };
+  }
+  return result;
+}
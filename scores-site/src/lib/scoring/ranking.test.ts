@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { withRanks, type RankingConfig } from "./ranking";
+import type { ParticipantRow } from "./types";
+
+const row = (name: string, scoreNum: number, fields: Partial<ParticipantRow> = {}): ParticipantRow => ({
+  name, sum: "", count: "", avg: "", median: "", score: String(scoreNum), scoreNum, extra: [], ...fields,
+});
+
+const ranks = (rows: ParticipantRow[], ranking: Partial<RankingConfig> = {}) =>
+  withRanks(rows, { style: "competition", precision: 2, tieBreakers: [], ...ranking }).map(r => [r.name, r.rank]);
+
+const TIED = [row("A", 90), row("B", 80), row("C", 80), row("D", 70)];
+
+describe("withRanks", () => {
+  it("sorts by score, highest first", () => {
+    expect(ranks([row("Low", 1), row("High", 3), row("Mid", 2)])).toEqual([["High", 1], ["Mid", 2], ["Low", 3]]);
+  });
+
+  it.each([
+    ["competition", [1, 2, 2, 4]],
+    ["dense", [1, 2, 2, 3]],
+    ["ordinal", [1, 2, 3, 4]],
+  ] as const)("numbers ties in %s style", (style, expected) => {
+    expect(ranks(TIED, { style }).map(([, rank]) => rank)).toEqual(expected);
+  });
+
+  it("compares scores only to the configured precision", () => {
+    const rows = [row("Float", 41.99999), row("Exact", 42), row("Next", 41.98)];
+    expect(ranks(rows, { precision: 2 })).toEqual([["Float", 1], ["Exact", 1], ["Next", 3]]);
+    expect(ranks(rows, { precision: 6 })).toEqual([["Exact", 1], ["Float", 2], ["Next", 3]]);
+  });
+
+  it("applies tie-breakers in order until one decides", () => {
+    const rows = [
+      row("Cleo", 80, { avg: "8", count: "10" }),
+      row("Ada", 80, { avg: "8", count: "12" }),
+      row("Bea", 80, { avg: "9", count: "5" }),
+      row("Dan", 80, { avg: "8", count: "12" }),
+    ];
+    expect(ranks(rows, { tieBreakers: ["avg", "count", "name"] })).toEqual([["Bea", 1], ["Ada", 2], ["Dan", 3], ["Cleo", 4]]);
+  });
+
+  it("keeps rows tied when every tie-breaker agrees", () => {
+    const rows = [row("X", 50, { avg: "5" }), row("Y", 50, { avg: "5" })];
+    expect(ranks(rows, { tieBreakers: ["avg"] })).toEqual([["X", 1], ["Y", 1]]);
+  });
+
+  it("ranks missing tie-breaker values last", () => {
+    const rows = [row("Blank", 60, { median: "" }), row("Set", 60, { median: "3" })];
+    expect(ranks(rows, { tieBreakers: ["median"] })).toEqual([["Set", 1], ["Blank", 2]]);
+  });
+
+  it("leaves the input untouched", () => {
+    const rows = [row("B", 1), row("A", 2)];
+    withRanks(rows, { style: "competition", precision: 2, tieBreakers: [] });
+    expect(rows.map(r => r.name)).toEqual(["B", "A"]);
+  });
+});
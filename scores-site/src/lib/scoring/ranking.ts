@@ -0,0 +1,55 @@
+import type { ParticipantRow, RankedParticipant } from "./types";
+
+// ---- Ranking helper ----
+const num = (s: string) => {
+  const n = parseFloat(s);
+  return Number.isFinite(n) ? n : -Infinity;
+};
+
+// Each tie-breaker returns a comparison where negative sorts `a` first.
+const TIE_BREAKERS = {
+  avg: (a: ParticipantRow, b: ParticipantRow) => num(b.avg) - num(a.avg),
+  sum: (a: ParticipantRow, b: ParticipantRow) => num(b.sum) - num(a.sum),
+  median: (a: ParticipantRow, b: ParticipantRow) => num(b.median) - num(a.median),
+  count: (a: ParticipantRow, b: ParticipantRow) => num(b.count) - num(a.count),
+  name: (a: ParticipantRow, b: ParticipantRow) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+};
+
+export type TieBreaker = keyof typeof TIE_BREAKERS;
+
+export const TIE_BREAKER_NAMES = Object.keys(TIE_BREAKERS) as TieBreaker[];
+
+// competition = "1224", dense = "1223", ordinal = "1234".
+export type RankingConfig = {
+  style: "competition" | "dense" | "ordinal";
+  precision: number;          // decimal places compared when deciding ties
+  tieBreakers: TieBreaker[];  // applied in order to equal scores
+};
+
+export function withRanks<T extends ParticipantRow>(items: T[], ranking: RankingConfig): (T & RankedParticipant)[] {
+  const factor = 10 ** ranking.precision;
+  const rounded = (item: T) => Math.round(item.scoreNum * factor);
+  const breakers = ranking.tieBreakers.map(t => TIE_BREAKERS[t]);
+
+  const compare = (a: T, b: T) => {
+    const diff = rounded(b) - rounded(a);
+    if (diff) return diff;
+    for (const breaker of breakers) {
+      const d = breaker(a, b);
+      if (d) return d;
+    }
+    return 0;
+  };
+
+  const sorted = [...items].sort(compare);
+  let prev: T | null = null; let lastRank = 0;
+  return sorted.map((item, idx) => {
+    const tied = prev !== null && compare(prev, item) === 0;
+    const rank = ranking.style === "ordinal" ? idx + 1
+      : tied ? lastRank
+      : ranking.style === "dense" ? lastRank + 1
+      : idx + 1;
+    prev = item; lastRank = rank;
+    return { ...item, rank };
+  });
+}
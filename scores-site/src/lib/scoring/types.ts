@@ -0,0 +1,72 @@
+// ---- Shared data shapes (safe to import from client components) ----
+export type ExtraField = { label: string; value: string };
+
+// One component of a blended score, e.g. the judges' average at 70%.
+export type ScorePart = { label: string; value: string; share: number };
+
+export type Profile = {
+  id: string;
+  name: string;         // display name
+  photo?: string;
+  team?: string;
+  title?: string;
+};
+
+// One participant as read from the source, before ranking.
+export type ParticipantRow = {
+  name: string;
+  sum: string;
+  count: string;
+  avg: string;
+  median: string;       // empty when the source has no median
+  team?: string;
+  category?: string;
+  score: string;        // the ranking metric, formatted for display
+  scoreNum: number;
+  extra: ExtraField[];  // additional columns configured for display
+  breakdown?: ScorePart[];   // how a "panel" score was blended
+  profile?: Profile;    // from the participant registry, when the name matches
+  adjusted?: boolean;   // score changed by an operator override
+  sourceRow?: number;   // 1-based row in the source sheet, for diagnostics
+  warning?: string;     // kept, but flagged by validation
+};
+
+export type RankedParticipant = ParticipantRow & { rank: number };
+
+export type GroupKind = "team" | "category";
+
+// A team or category ranked as a whole, plus each member's rank within it.
+export type GroupStanding = RankedParticipant & { members: { name: string; rank: number }[] };
+
+// A source row that validation dropped or flagged instead of ranking as-is.
+export type RowIssue = {
+  row?: number;
+  name: string;
+  problem: "empty-name" | "duplicate-name" | "non-numeric-score";
+  detail: string;
+  action: "dropped" | "flagged";
+};
+
+// Where a scheduled board stands; see lib/lifecycle.ts.
+export type LifecyclePhase = "upcoming" | "live" | "closed";
+
+// "names" shows only who is taking part; "top3" shows everyone but the top 3.
+export type EmbargoMode = "names" | "top3";
+
+export type BoardLifecycle = {
+  phase: LifecyclePhase;
+  startsAt?: string;
+  endsAt?: string;
+  embargo?: EmbargoMode;   // set while results are held back
+  lineup?: string[];       // presenters, sent while the standings are hidden
+};
+
+// One published state of a board: what the API serves and the history records.
+export type Snapshot = {
+  rows: RankedParticipant[];
+  groups?: Partial<Record<GroupKind, GroupStanding[]>>;
+  diagnostics?: RowIssue[];
+  updatedAt: string;      // when this data was loaded from the source
+  staleError?: string;    // set when the source is failing and this is the last good data
+  lifecycle?: BoardLifecycle;   // added to what viewers are served, never stored
+};
@@ -0,0 +1,17 @@
+import { readCSV } from "../scoring";
+import type { CsvSourceConfig, ScoreSource, SourceTable } from "./types";
+
+export function csvTable(text: string, delimiter?: string): SourceTable {
+  const csv = readCSV(text, { delimiter });
+  return { rows: csv.rows, decimalComma: csv.delimiter === ";" };
+}
+
+// Published-to-web Google Sheet (File → Share → Publish → CSV), or any CSV URL.
+export const csvSource: ScoreSource<CsvSourceConfig> = {
+  kind: "csv",
+  async fetchTable({ url }) {
+    const res = await fetch(url, { cache: "no-store" });
+    if (!res.ok) throw new Error(`CSV fetch failed: ${res.status}`);
+    return csvTable(await res.text());
+  },
+};
@@ -0,0 +1,24 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { csvTable } from "./csv";
+import { tableFromJson } from "./table";
+import type { FileSourceConfig, ScoreSource } from "./types";
+
+// Reads a CSV, TSV or JSON file inside the project, so events can run offline.
+export const fileSource: ScoreSource<FileSourceConfig> = {
+  kind: "file",
+  async fetchTable({ path: filePath }) {
+    const root = process.cwd();
+    const resolved = path.resolve(root, filePath);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`File source must live inside the project: ${filePath}`);
+    }
+
+    const text = await readFile(resolved, "utf8");
+    const ext = path.extname(resolved).toLowerCase();
+    if (ext === ".json") return { rows: tableFromJson(JSON.parse(text)) };
+    if (ext === ".csv" || ext === ".txt") return csvTable(text);
+    if (ext === ".tsv") return csvTable(text, "\t");
+    throw new Error(`Unsupported file type "${ext}" (use .csv, .tsv or .json)`);
+  },
+};
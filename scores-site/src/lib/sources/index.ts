@@ -0,0 +1,37 @@
+import { FETCH_RETRIES, RETRY_BASE_MS } from "../config";
+import { csvSource } from "./csv";
+import { fileSource } from "./file";
+import { jsonSource } from "./json";
+import { sheetsSource } from "./sheets";
+import { votesSource } from "./votes";
+import type { ScoreSource, SourceConfig, SourceKind } from "./types";
+
+export type { ScoreSource, SourceConfig, SourceKind, SourceTable } from "./types";
+
+// ---- Source registry ----
+const registry = new Map<SourceKind, ScoreSource>();
+
+export function registerSource<C extends SourceConfig>(source: ScoreSource<C>) {
+  registry.set(source.kind, source);
+}
+
+registerSource(csvSource);
+registerSource(sheetsSource);
+registerSource(fileSource);
+registerSource(jsonSource);
+registerSource(votesSource);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function fetchFromSource(config: SourceConfig) {
+  const source = registry.get(config.kind);
+  if (!source) throw new Error(`Unknown score source "${config.kind}"`);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await source.fetchTable(config);
+    } catch (e) {
+      if (attempt >= FETCH_RETRIES) throw e;
+      await sleep(RETRY_BASE_MS * 2 ** attempt);
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { tableFromJson } from "./table";
+import type { JsonSourceConfig, ScoreSource } from "./types";
+
+export const jsonSource: ScoreSource<JsonSourceConfig> = {
+  kind: "json",
+  async fetchTable({ url, headers }) {
+    const res = await fetch(url, { cache: "no-store", headers: { Accept: "application/json", ...headers } });
+    if (!res.ok) throw new Error(`JSON fetch failed: ${res.status}`);
+    return { rows: tableFromJson(await res.json()) };
+  },
+};
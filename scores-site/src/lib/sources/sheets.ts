@@ -0,0 +1,13 @@
+import type { ScoreSource, SheetsSourceConfig } from "./types";
+
+export const sheetsSource: ScoreSource<SheetsSourceConfig> = {
+  kind: "sheets",
+  async fetchTable({ apiKey, sheetId, range }) {
+    const url = `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(sheetId)}`
+      + `/values/${encodeURIComponent(range)}?key=${encodeURIComponent(apiKey)}`;
+    const res = await fetch(url, { cache: "no-store" });
+    if (!res.ok) throw new Error(`Sheets API fetch failed: ${res.status}`);
+    const json = await res.json();
+    return { rows: (json.values || []) as string[][] };
+  },
+};
@@ -0,0 +1,13 @@
+// ---- JSON → table ----
+// Accepts `[{...}]`, `{ rows: [{...}] }` or an array of arrays with a header row.
+export function tableFromJson(json: unknown): string[][] {
+  const list = Array.isArray(json) ? json : (json as { rows?: unknown })?.rows;
+  if (!Array.isArray(list)) throw new Error("JSON source must be an array or { rows: [...] }");
+  if (!list.length) return [];
+  if (Array.isArray(list[0])) return (list as unknown[][]).map(r => r.map(v => (v == null ? "" : String(v))));
+
+  const records = list as Record<string, unknown>[];
+  const header = Array.from(new Set(records.flatMap(r => Object.keys(r ?? {}))));
+  const values = records.map(r => header.map(h => (r?.[h] == null ? "" : String(r[h]))));
+  return [header, ...values];
+}
@@ -0,0 +1,27 @@
+// ---- Source configs ----
+export type CsvSourceConfig = { kind: "csv"; url: string };
+export type SheetsSourceConfig = { kind: "sheets"; apiKey: string; sheetId: string; range: string };
+export type FileSourceConfig = { kind: "file"; path: string };
+export type JsonSourceConfig = { kind: "json"; url: string; headers?: Record<string, string> };
+export type VotesSourceConfig = { kind: "votes"; poll: string };
+
+export type SourceConfig =
+  | CsvSourceConfig
+  | SheetsSourceConfig
+  | FileSourceConfig
+  | JsonSourceConfig
+  | VotesSourceConfig;
+
+export type SourceKind = SourceConfig["kind"];
+
+// A header row plus data rows. `decimalComma` marks numbers written as "84,5", which a
+// semicolon-separated CSV implies.
+export type SourceTable = { rows: string[][]; decimalComma?: boolean };
+
+// ---- Adapter interface ----
+// An adapter turns its config into a header row plus data rows; column mapping
+// and ranking happen downstream so every source behaves the same.
+export interface ScoreSource<C extends SourceConfig = SourceConfig> {
+  kind: C["kind"];
+  fetchTable(config: C): Promise<SourceTable>;
+}
@@ -0,0 +1,10 @@
+import { getPoll, readVotes, votesTable } from "../voting";
+import type { ScoreSource, VotesSourceConfig } from "./types";
+
+// Audience votes collected by /vote/<poll>, stored under DATA_DIR.
+export const votesSource: ScoreSource<VotesSourceConfig> = {
+  kind: "votes",
+  async fetchTable({ poll }) {
+    return { rows: votesTable(getPoll(poll), await readVotes(poll)) };
+  },
+};
@@ -0,0 +1,54 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// ---- Local file storage ----
+// Runtime state (overrides, audit log, …) lives in DATA_DIR, outside the committed config.
+export const DATA_DIR = path.resolve(process.cwd(), process.env.DATA_DIR || ".data");
+
+export const dataPath = (name: string) => path.join(DATA_DIR, name);
+
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (e: any) {
+    if (e.code === "ENOENT") return fallback;
+    throw e;
+  }
+}
+
+export async function writeJsonFile(file: string, data: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2));
+  await rename(tmp, file);
+}
+
+// Read-modify-write, serialized per file so concurrent requests don't lose updates.
+const locks = new Map<string, Promise<unknown>>();
+
+export function updateJsonFile<T>(file: string, fallback: T, mutate: (data: T) => T | void): Promise<T> {
+  const run = (locks.get(file) ?? Promise.resolve()).then(async () => {
+    const data = await readJsonFile(file, fallback);
+    const next = mutate(data) ?? data;
+    await writeJsonFile(file, next);
+    return next;
+  });
+  locks.set(file, run.catch(() => {}));
+  return run;
+}
+
+export async function appendJsonLine(file: string, entry: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  await appendFile(file, JSON.stringify(entry) + "\n");
+}
+
+export async function readJsonLines<T>(file: string): Promise<T[]> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (e: any) {
+    if (e.code === "ENOENT") return [];
+    throw e;
+  }
+  return text.split("\n").filter(Boolean).map(line => JSON.parse(line) as T);
+}
@@ -0,0 +1,133 @@
+import type React from "react";
+
+// ---- Theme ----
+// Safe to import from client components. Colors are any CSS color (hex, rgb(), hsl(),
+// named, …); derived shades use color-mix() instead of string concatenation.
+export type ThemePalette = {
+  brand: string;        // rank badges, scores, active tabs
+  background: string;   // page background; any CSS background, gradients included
+  surface: string;      // header, cards, panels
+  text: string;
+  muted: string;        // secondary text
+  border: string;
+  decor: [string, string, string];   // floating background shapes
+};
+
+export type ThemeFonts = { body: string; heading: string };
+
+export type Theme = {
+  mode: "light" | "dark";
+  palette: ThemePalette;
+  fonts: ThemeFonts;
+  background: "shapes" | "plain";
+  medals: [string, string, string];  // podium 1st, 2nd, 3rd
+};
+
+const MEDALS: Theme["medals"] = ["#FFD700", "#C0C0C0", "#CD7F32"];   // Gold, Silver, Bronze
+
+export const THEME_PRESETS = {
+  default: {
+    mode: "light",
+    palette: {
+      brand: "#6366f1",
+      background: "linear-gradient(to bottom right, #f8fafc, #eff6ff, #eef2ff)",
+      surface: "#ffffff",
+      text: "#111827",
+      muted: "#6b7280",
+      border: "#f3f4f6",
+      decor: ["#f3e8ff", "#dbeafe", "#dcfce7"],
+    },
+    fonts: { body: "inherit", heading: "inherit" },
+    background: "shapes",
+    medals: MEDALS,
+  },
+  midnight: {
+    mode: "dark",
+    palette: {
+      brand: "#818cf8",
+      background: "linear-gradient(to bottom right, #020617, #0f172a, #1e1b4b)",
+      surface: "#1e293b",
+      text: "#f1f5f9",
+      muted: "#94a3b8",
+      border: "#334155",
+      decor: ["#4c1d95", "#1e3a8a", "#064e3b"],
+    },
+    fonts: { body: "inherit", heading: "inherit" },
+    background: "shapes",
+    medals: MEDALS,
+  },
+  minimal: {
+    mode: "light",
+    palette: {
+      brand: "#111827",
+      background: "#ffffff",
+      surface: "#f9fafb",
+      text: "#111827",
+      muted: "#6b7280",
+      border: "#e5e7eb",
+      decor: ["#f3f4f6", "#f3f4f6", "#f3f4f6"],
+    },
+    fonts: { body: "ui-sans-serif, system-ui, sans-serif", heading: "ui-sans-serif, system-ui, sans-serif" },
+    background: "plain",
+    medals: ["#d4af37", "#a8a9ad", "#b08d57"],
+  },
+  festival: {
+    mode: "light",
+    palette: {
+      brand: "#db2777",
+      background: "linear-gradient(to bottom right, #fff7ed, #fdf2f8, #f5f3ff)",
+      surface: "#ffffff",
+      text: "#3b0764",
+      muted: "#86198f",
+      border: "#fce7f3",
+      decor: ["#fbcfe8", "#fde68a", "#ddd6fe"],
+    },
+    fonts: { body: "inherit", heading: "Georgia, 'Times New Roman', serif" },
+    background: "shapes",
+    medals: MEDALS,
+  },
+} satisfies Record<string, Theme>;
+
+export type ThemePreset = keyof typeof THEME_PRESETS;
+
+// What props and events.config.json accept: a preset name, or a preset plus overrides.
+export type ThemeInput = ThemePreset | (Partial<Omit<Theme, "palette" | "fonts">> & {
+  preset?: ThemePreset;
+  palette?: Partial<ThemePalette>;
+  fonts?: Partial<ThemeFonts>;
+});
+
+export const isThemePreset = (name: unknown): name is ThemePreset =>
+  typeof name === "string" && Object.hasOwn(THEME_PRESETS, name);
+
+// An explicit brandColor (prop or event config) wins over the theme's own brand.
+export function resolveTheme(input: ThemeInput = "default", brandColor?: string): Theme {
+  const { preset, palette, fonts, ...rest } = typeof input === "string" ? { preset: input } : input;
+  const base: Theme = THEME_PRESETS[isThemePreset(preset) ? preset : "default"];
+  return {
+    ...base,
+    ...rest,
+    palette: { ...base.palette, ...palette, ...(brandColor ? { brand: brandColor } : {}) },
+    fonts: { ...base.fonts, ...fonts },
+  };
+}
+
+// ---- Derived colors ----
+// `percent` of `color` over transparent; valid for any CSS color input.
+export const alpha = (color: string, percent: number) => `color-mix(in srgb, ${color} ${percent}%, transparent)`;
+
+// CSS variables behind the board-* Tailwind colors declared in globals.css.
+export function themeStyle(theme: Theme): React.CSSProperties {
+  return {
+    "--board-brand": theme.palette.brand,
+    "--board-surface": theme.palette.surface,
+    "--board-text": theme.palette.text,
+    "--board-muted": theme.palette.muted,
+    "--board-border": theme.palette.border,
+    "--board-font-heading": theme.fonts.heading,
+    background: theme.palette.background,
+    color: theme.palette.text,
+    fontFamily: theme.fonts.body,
+    colorScheme: theme.mode,
+  } as React.CSSProperties;
+}
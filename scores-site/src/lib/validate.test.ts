@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { mapRows, toNumber } from "./columns";
+import { getScoringConfig } from "./config";
+import { csvTable } from "./sources/csv";
+import { validateRows } from "./validate";
+
+const scoring = getScoringConfig({ score: { metric: "avg" } });
+
+// The same path a CSV source takes: parse, map the columns, validate.
+const load = (text: string) => {
+  const { rows, decimalComma } = csvTable(text);
+  return validateRows(mapRows(rows, scoring, decimalComma));
+};
+
+describe("toNumber", () => {
+  it.each(["42", "-3", "41.5", "007"])("reads %s", s => {
+    expect(toNumber(s)).toBe(Number(s));
+  });
+
+  it.each(["", "abc", "12 pts", "0x10", "1e3", "Infinity", "+5", ".5", "1.2.3", " 4"])("rejects %j", s => {
+    expect(toNumber(s)).toBeNaN();
+  });
+
+  it("reads a decimal comma only when the sheet uses them", () => {
+    expect(toNumber("84,5", true)).toBe(84.5);
+    expect(toNumber("84,5")).toBeNaN();
+  });
+});
+
+describe("validateRows", () => {
+  it("drops scores that only JavaScript would read as numbers", () => {
+    const { rows, issues } = load("Name,Avg\nHex,0x10\nExp,1e3\nInf,Infinity\nOk,42\n");
+    expect(rows.map(r => r.name)).toEqual(["Ok"]);
+    expect(issues.map(i => [i.name, i.problem, i.row])).toEqual([
+      ["Hex", "non-numeric-score", 2],
+      ["Exp", "non-numeric-score", 3],
+      ["Inf", "non-numeric-score", 4],
+    ]);
+  });
+
+  it("keeps decimal-comma scores from a semicolon-separated sheet", () => {
+    const { rows, issues } = load("Name;Avg\nAlice;42,25\nBob;40\n");
+    expect(issues).toEqual([]);
+    expect(rows.map(r => [r.name, r.score, r.scoreNum])).toEqual([["Alice", "42,25", 42.25], ["Bob", "40", 40]]);
+  });
+
+  it("still drops decimal-comma scores from a comma-separated sheet", () => {
+    const { rows, issues } = load('Name,Avg\nAlice,"42,25"\nBob,40\n');
+    expect(rows.map(r => r.name)).toEqual(["Bob"]);
+    expect(issues[0]).toMatchObject({ name: "Alice", problem: "non-numeric-score" });
+  });
+});
@@ -0,0 +1,44 @@
+import { nameKey } from "./participants";
+import type { RowIssue, ParticipantRow } from "./scoring";
+
+// ---- Row validation ----
+// Runs before ranking so a bad row never lands at the bottom of the board with a
+// silent 0: blank names and non-numeric scores are dropped, and for duplicate
+// names the first row is kept and flagged.
+export function validateRows(rows: ParticipantRow[], issues: RowIssue[] = []) {
+  const seen = new Map<string, ParticipantRow>();
+  const valid: ParticipantRow[] = [];
+
+  for (const r of rows) {
+    if (!r.name) {
+      issues.push({ row: r.sourceRow, name: "", problem: "empty-name", detail: "Row has no name", action: "dropped" });
+      continue;
+    }
+    if (!Number.isFinite(r.scoreNum)) {
+      issues.push({
+        row: r.sourceRow,
+        name: r.name,
+        problem: "non-numeric-score",
+        detail: r.score ? `Score "${r.score}" is not a number` : "Score is blank",
+        action: "dropped",
+      });
+      continue;
+    }
+    const k = nameKey(r.name);
+    const first = seen.get(k);
+    if (first) {
+      first.warning = "Duplicate rows for this name in the source; only the first is ranked";
+      issues.push({
+        row: r.sourceRow,
+        name: r.name,
+        problem: "duplicate-name",
+        detail: `Same name as row ${first.sourceRow ?? "?"}; kept the first`,
+        action: "dropped",
+      });
+      continue;
+    }
+    seen.set(k, r);
+    valid.push(r);
+  }
+  return { rows: valid, issues };
+}
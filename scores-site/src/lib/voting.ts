@@ -0,0 +1,184 @@
+import { formatScore } from "./columns";
+import { readJsonConfig } from "./config";
+import { NotFoundError } from "./events";
+import { nameKey } from "./participants";
+import { dataPath, readJsonFile, updateJsonFile } from "./store";
+
+// ---- Polls config ----
+// Loaded from voting.config.json (or VOTING_CONFIG), re-read per request like the other configs.
+export type Criterion = {
+  id: string;
+  label?: string;
+  max?: number;          // scores run from 0 to max (default 10)
+};
+
+// Judges sign in with their token (/vote/<poll>?token=…); everyone else votes as audience.
+export type JudgeConfig = {
+  name: string;
+  token: string;
+  weight?: number;         // relative weight among judges (default 1)
+};
+
+export type PollConfig = {
+  id: string;
+  title?: string;
+  criteria: Criterion[];
+  presenters?: string[];   // offered in the admin picker; any name can still be typed in
+  tokens?: string[];       // when set, only these tokens (and judges) may vote, once per presenter each
+  judges?: JudgeConfig[];
+  normalize?: "zscore" | "none";   // evens out harsh and lenient judges (default zscore)
+};
+
+export const criterionLabel = (c: Criterion) => c.label ?? c.id;
+export const judgeForToken = (poll: PollConfig, token: unknown) =>
+  typeof token === "string" && token ? poll.judges?.find(j => j.token === token) : undefined;
+export const criterionMax = (c: Criterion) => c.max ?? 10;
+
+export function getPolls(): PollConfig[] {
+  return readJsonConfig<{ polls?: PollConfig[] }>("VOTING_CONFIG", "voting.config.json")?.polls ?? [];
+}
+
+export function getPoll(pollId: string) {
+  const poll = getPolls().find(p => p.id === pollId);
+  if (!poll) throw new NotFoundError(`Unknown poll "${pollId}"`);
+  if (!poll.criteria?.length) throw new Error(`Poll "${poll.id}" has no criteria`);
+  return poll;
+}
+
+// ---- Poll state ----
+// Which presenter is being rated right now; null while voting is closed.
+export type PollState = { current: string | null };
+
+const STATE_FILE = dataPath("polls.json");
+
+export async function getPollState(pollId: string): Promise<PollState> {
+  const file = await readJsonFile<Record<string, PollState>>(STATE_FILE, {});
+  return file[pollId] ?? { current: null };
+}
+
+export function setCurrentPresenter(pollId: string, current: string | null) {
+  return updateJsonFile<Record<string, PollState>>(STATE_FILE, {}, (file) => {
+    file[pollId] = { current: current?.trim() || null };
+  }).then(file => file[pollId]);
+}
+
+// ---- Votes ----
+export type Vote = {
+  at: string;
+  presenter: string;
+  voter: string;                      // device id, token, or judge:<name>
+  judge?: string;                     // judge name; absent for audience votes
+  scores: Record<string, number>;     // by criterion id
+};
+
+export class VoteError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const votesFile = (pollId: string) => dataPath(`votes/${encodeURIComponent(pollId)}.json`);
+
+export async function readVotes(pollId: string): Promise<Vote[]> {
+  return readJsonFile<Vote[]>(votesFile(pollId), []);
+}
+
+export const hasVoted = (votes: Vote[], voter: string, presenter: string) =>
+  votes.some(v => v.voter === voter && nameKey(v.presenter) === nameKey(presenter));
+
+// Votes only count for the current presenter, once per voter.
+export async function castVote(poll: PollConfig, voter: string, input: unknown, judge?: JudgeConfig) {
+  const ballot: { presenter?: unknown; scores?: unknown } = typeof input === "object" && input !== null ? input : {};
+  const given: Record<string, unknown> = typeof ballot.scores === "object" && ballot.scores !== null ? { ...ballot.scores } : {};
+
+  const { current } = await getPollState(poll.id);
+  if (!current) throw new VoteError("Voting is closed", 403);
+  if (typeof ballot.presenter !== "string" || nameKey(ballot.presenter) !== nameKey(current)) {
+    throw new VoteError(`Voting has moved on to ${current}`, 409);
+  }
+  if (!judge && poll.tokens && !poll.tokens.includes(voter)) throw new VoteError("This voting link is not valid", 403);
+
+  const scores: Record<string, number> = {};
+  for (const c of poll.criteria) {
+    const value = Number(given[c.id]);
+    if (!Number.isFinite(value) || value < 0 || value > criterionMax(c)) {
+      throw new VoteError(`${criterionLabel(c)} must be a number from 0 to ${criterionMax(c)}`, 400);
+    }
+    scores[c.id] = value;
+  }
+
+  const vote: Vote = { at: new Date().toISOString(), presenter: current, voter, judge: judge?.name, scores };
+  await updateJsonFile<Vote[]>(votesFile(poll.id), [], (votes) => {
+    if (hasVoted(votes, voter, current)) throw new VoteError(`You have already voted for ${current}`, 409);
+    votes.push(vote);
+  });
+  return vote;
+}
+
+// ---- Votes → score table ----
+const voteTotal = (poll: PollConfig, v: Vote) => poll.criteria.reduce((acc, c) => acc + (v.scores[c.id] ?? 0), 0);
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+const stdDev = (xs: number[]) => {
+  const m = mean(xs);
+  return Math.sqrt(mean(xs.map(x => (x - m) ** 2)));
+};
+
+// Judge score per presenter: each judge's totals are z-scored against that judge's own
+// mean and spread, mapped back onto the panel's overall scale, then averaged by judge weight.
+function judgeScores(poll: PollConfig, votes: Vote[]) {
+  const judged = votes.filter(v => v.judge).map(v => ({ vote: v, total: voteTotal(poll, v) }));
+  const normalize = (poll.normalize ?? "zscore") === "zscore" && judged.length > 1;
+  const all = judged.map(j => j.total);
+  const [panelMean, panelSd] = normalize ? [mean(all), stdDev(all)] : [0, 0];
+
+  const perJudge = new Map<string, number[]>();
+  for (const j of judged) perJudge.set(j.vote.judge!, [...(perJudge.get(j.vote.judge!) ?? []), j.total]);
+  const stats = new Map([...perJudge].map(([name, totals]) => [name, { mean: mean(totals), sd: stdDev(totals) }]));
+  const weightOf = (name: string) => poll.judges?.find(j => j.name === name)?.weight ?? 1;
+
+  const byPresenter = new Map<string, { weighted: number; weight: number }>();
+  for (const { vote, total } of judged) {
+    const s = stats.get(vote.judge!)!;
+    const value = normalize ? panelMean + (s.sd ? (total - s.mean) / s.sd : 0) * panelSd : total;
+    const k = nameKey(vote.presenter);
+    const entry = byPresenter.get(k) ?? { weighted: 0, weight: 0 };
+    entry.weighted += weightOf(vote.judge!) * value;
+    entry.weight += weightOf(vote.judge!);
+    byPresenter.set(k, entry);
+  }
+  return new Map([...byPresenter].map(([k, e]) => [k, e.weight ? e.weighted / e.weight : NaN]));
+}
+
+// One row per presenter in the aggregated layout (Name, Sum, Count, Avg), plus the
+// average of each criterion, so votes rank through the same pipeline as a sheet.
+// Polls with judges also get Judges and Audience columns for the "panel" metric.
+export function votesTable(poll: PollConfig, votes: Vote[]): string[][] {
+  const byPresenter = new Map<string, { name: string; totals: number[]; audience: number[]; perCriterion: number[] }>();
+  for (const v of votes) {
+    const k = nameKey(v.presenter);
+    const entry = byPresenter.get(k)
+      ?? { name: v.presenter, totals: [], audience: [], perCriterion: poll.criteria.map(() => 0) };
+    entry.totals.push(voteTotal(poll, v));
+    if (!v.judge) entry.audience.push(voteTotal(poll, v));
+    poll.criteria.forEach((c, i) => (entry.perCriterion[i] += v.scores[c.id] ?? 0));
+    byPresenter.set(k, entry);
+  }
+
+  const panel = !!poll.judges?.length;
+  const judges = panel ? judgeScores(poll, votes) : new Map<string, number>();
+  const optional = (n: number | undefined) => (n === undefined || Number.isNaN(n) ? "" : formatScore(n));
+
+  const header = ["Name", "Sum", "Count", "Avg", ...(panel ? ["Judges", "Audience"] : []), ...poll.criteria.map(criterionLabel)];
+  const rows = [...byPresenter].map(([k, { name, totals, audience, perCriterion }]) => {
+    const sum = totals.reduce((a, b) => a + b, 0);
+    return [
+      name,
+      formatScore(sum),
+      String(totals.length),
+      formatScore(sum / totals.length),
+      ...(panel ? [optional(judges.get(k)), optional(audience.length ? mean(audience) : undefined)] : []),
+      ...perCriterion.map(total => formatScore(total / totals.length)),
+    ];
+  });
+  return [header, ...rows];
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { ADMIN_COOKIE, isAdminSession } from "@/lib/auth";
+
+const PUBLIC_PATHS = ["/admin/login", "/api/admin/login"];
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) return NextResponse.next();
+  if (await isAdminSession(req.cookies.get(ADMIN_COOKIE)?.value)) return NextResponse.next();
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const url = req.nextUrl.clone();
+  url.pathname = "/admin/login";
+  url.search = `?next=${encodeURIComponent(pathname)}`;
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*"],
+};